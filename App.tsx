@@ -1,43 +1,259 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ImageIcon, RotateCcw, Sparkles, ChevronLeft, Upload, Grid, LayoutGrid, Timer, Trophy, Eye, EyeOff, Volume2, VolumeX } from 'lucide-react';
-import { Difficulty, GameState, PuzzleMetadata } from './types';
-import PuzzleBoard from './components/PuzzleBoard';
-import { GoogleGenAI } from '@google/genai';
-
-const CATEGORIES = ["Nature", "Architecture", "Animals", "Space"];
-
-const PREDEFINED_IMAGES: PuzzleMetadata[] = [
-  { id: 'n1', category: 'Nature', title: 'Mountain Lake', url: 'https://images.unsplash.com/photo-1464822759023-fed622ff2c3b?auto=format&fit=crop&w=1200' },
-  { id: 'n2', category: 'Nature', title: 'Forest Path', url: 'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?auto=format&fit=crop&w=1200' },
-  { id: 'a1', category: 'Architecture', title: 'Paris Streets', url: 'https://images.unsplash.com/photo-1502602898657-3e91760cbb34?auto=format&fit=crop&w=1200' },
-  { id: 'a2', category: 'Architecture', title: 'Modern Sky', url: 'https://images.unsplash.com/photo-1486406146926-c627a92ad1ab?auto=format&fit=crop&w=1200' },
-  { id: 'an1', category: 'Animals', title: 'Wild Tiger', url: 'https://images.unsplash.com/photo-1564349683136-77e08bef1ef1?auto=format&fit=crop&w=1200' },
-  { id: 'an2', category: 'Animals', title: 'Graceful Deer', url: 'https://images.unsplash.com/photo-1484406566174-9da000fda645?auto=format&fit=crop&w=1200' },
-  { id: 's1', category: 'Space', title: 'Nebula Dream', url: 'https://images.unsplash.com/photo-1462331940025-496dfbfc7564?auto=format&fit=crop&w=1200' },
-  { id: 's2', category: 'Space', title: 'Starry Sky', url: 'https://images.unsplash.com/photo-1534796636912-3b95b3ab5986?auto=format&fit=crop&w=1200' },
-];
+import { ImageIcon, RotateCcw, Sparkles, ChevronLeft, Upload, Grid, LayoutGrid, FolderPlus, FileJson, Timer, Trophy, Eye, EyeOff, Volume2, VolumeX, Play, Trash2, History, Undo2, Redo2, Lightbulb, Maximize, CalendarDays, Flame, ChartBar, RotateCw, Contrast, WifiOff, SlidersHorizontal } from 'lucide-react';
+import { AiArtwork, DailyResult, Difficulty, GalleryCategory, GameMode, GameRecord, GameState, ImportedCatalog, PuzzleMetadata, PuzzleType, SavedGame, SavedPiece, Settings, UserCollection } from './types';
+import PuzzleBoard, { PuzzleBoardHandle } from './components/PuzzleBoard';
+import SlidingBoard from './components/SlidingBoard';
+import StatsView from './components/StatsView';
+import ImageStatus from './components/ImageStatus';
+import AiPromptView from './components/AiPromptView';
+import ArtworkView from './components/ArtworkView';
+import CropEditor from './components/CropEditor';
+import CategoryView from './components/CategoryView';
+import SoundSettings from './components/SoundSettings';
+import SettingsView from './components/SettingsView';
+import GameResult from './components/GameResult';
+import {
+  deleteArtwork, deleteCatalog, deleteCollection, deleteGame, loadArtwork, loadCatalogs, loadCollections, loadDailyResults, loadGames, loadRecords,
+  loadSettings, saveArtwork, saveCatalog, saveCollection, saveDailyResult, saveGame, saveRecord, saveSettings
+} from './services/storage';
+import { formatGrid, gridForPieceCount, MAX_GRID_SIZE, MIN_GRID_SIZE } from './utils/grid';
+import { randomSeed } from './utils/random';
+import { computeStreak, DAILY_GRID, dailySeed, dateKey } from './utils/daily';
+import { checkNewRecord, imageBests } from './utils/stats';
+import { formatTime } from './utils/time';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { AiImageRequest, aiProvider, galleryProvider, ImageProvider, ImageResult, ImageSourceError, loadImage, uploadProvider } from './services/imageProviders';
+import { BUNDLED_CATEGORIES, BUNDLED_IMAGES, collectionCategory, importCatalogFile, importPhotos } from './services/catalog';
+import { configureAudio, startMusic, stopMusic } from './services/audio';
+import { defaultSettings, PIECE_COUNT_PRESETS } from './utils/settings';
+import { modeLabel, modeLimit, modesFor, PUZZLE_TYPES, SLIDING_PRESETS } from './utils/modes';
+
+const createGameId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>({
+    gameId: null,
+    imageId: null,
+    title: '',
     image: null,
-    difficulty: Difficulty.MEDIUM,
+    difficulty: { rows: 4, cols: 4 },
     pieces: [],
     isSolved: false,
     moves: 0,
+    hints: 0,
+    peeks: 0,
+    seed: 0,
+    dailyDate: null,
+    rotationMode: false,
+    mode: 'classic',
+    limit: null,
+    isFailed: false,
+    puzzleType: 'jigsaw',
     startTime: null,
     currentTime: 0,
+    savedPieces: null,
+    savedTiles: null,
   });
 
-  const [view, setView] = useState<'main' | 'category' | 'difficulty' | 'game'>('main');
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [view, setView] = useState<'main' | 'category' | 'ai' | 'artwork' | 'crop' | 'difficulty' | 'game' | 'stats' | 'settings'>('main');
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null); // GalleryCategory id
+  // Picture currently being fetched for a new puzzle, or the error it failed with
+  const [imageTask, setImageTask] = useState<{ label: string; error: string | null; retry: () => void } | null>(null);
+  const imageAbortRef = useRef<AbortController | null>(null);
   const [showPreview, setShowPreview] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
+  const [settings, setSettings] = useState<Settings>(defaultSettings);
+  const [showSoundSettings, setShowSoundSettings] = useState(false);
+  // Changes made while the stored settings are still loading; null once they have loaded
+  const earlySettingsRef = useRef<Partial<Settings> | null>({});
+  const [savedGames, setSavedGames] = useState<SavedGame[]>([]);
+  const [dailyResults, setDailyResults] = useState<DailyResult[]>([]);
+  const [artwork, setArtwork] = useState<AiArtwork[]>([]);
+  const [catalogs, setCatalogs] = useState<ImportedCatalog[]>([]);
+  const [collections, setCollections] = useState<UserCollection[]>([]);
+  const [records, setRecords] = useState<GameRecord[]>([]);
+  const [newRecord, setNewRecord] = useState({ time: false, moves: false });
+  const [imageAspect, setImageAspect] = useState(1);
+  const [customGrid, setCustomGrid] = useState<Difficulty>({ rows: 5, cols: 5 });
+  const [rotatePieces, setRotatePieces] = useState(false);
+  const [gameMode, setGameMode] = useState<GameMode>('classic');
+  const [puzzleType, setPuzzleType] = useState<PuzzleType>('jigsaw');
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
   const timerRef = useRef<number | null>(null);
+  const boardRef = useRef<PuzzleBoardHandle>(null);
+  const online = useOnlineStatus();
+  const moveLimited = gameState.mode === 'moveLimit';
+  const slidingPuzzle = gameState.puzzleType === 'sliding';
+
+  // A change made before loading finishes (the header's contrast toggle, say) is kept on top of the stored settings
+  useEffect(() => {
+    loadSettings()
+      .then(stored => {
+        const early = earlySettingsRef.current ?? {};
+        earlySettingsRef.current = null;
+        const next = { ...stored, ...early };
+        setSettings(next);
+        if (Object.keys(early).length > 0) saveSettings(next).catch(error => console.error("Saving settings failed:", error));
+      })
+      .catch(error => {
+        earlySettingsRef.current = null;
+        console.error("Loading settings failed:", error);
+      });
+  }, []);
+
+  useEffect(() => {
+    configureAudio(settings);
+  }, [settings]);
+
+  // Ambient music plays during a game only
+  useEffect(() => {
+    if (view !== 'game') return;
+    startMusic();
+    return () => {
+      stopMusic();
+      setShowSoundSettings(false);
+    };
+  }, [view]);
+
+  const updateSettings = (patch: Partial<Settings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    // Saving now would overwrite the stored settings with defaults; the load saves the merge instead
+    if (earlySettingsRef.current) {
+      earlySettingsRef.current = { ...earlySettingsRef.current, ...patch };
+      return;
+    }
+    saveSettings(next).catch(error => console.error("Saving settings failed:", error));
+  };
+
+  useEffect(() => {
+    if (view !== 'main') return;
+    loadGames().then(setSavedGames).catch(error => console.error("Loading saved games failed:", error));
+    loadDailyResults().then(setDailyResults).catch(error => console.error("Loading daily results failed:", error));
+    loadArtwork().then(setArtwork).catch(error => console.error("Loading artwork failed:", error));
+    loadCatalogs().then(setCatalogs).catch(error => console.error("Loading catalogs failed:", error));
+    loadCollections().then(setCollections).catch(error => console.error("Loading collections failed:", error));
+    loadRecords().then(setRecords).catch(error => console.error("Loading records failed:", error));
+  }, [view]);
+
+  const persistGame = (state: GameState) => {
+    const sliding = state.puzzleType === 'sliding';
+    if (!state.gameId || !state.image || !(sliding ? state.savedTiles : state.savedPieces) || state.isSolved || state.isFailed) return;
+    saveGame({
+      id: state.gameId,
+      imageId: state.imageId,
+      title: state.title,
+      image: state.image,
+      difficulty: state.difficulty,
+      pieces: state.savedPieces ?? [],
+      tiles: state.savedTiles ?? undefined,
+      puzzleType: state.puzzleType,
+      moves: state.moves,
+      hints: state.hints,
+      peeks: state.peeks,
+      seed: state.seed,
+      dailyDate: state.dailyDate,
+      rotationMode: state.rotationMode,
+      mode: state.mode,
+      limit: state.limit,
+      elapsedTime: state.currentTime,
+      updatedAt: Date.now()
+    }).catch(error => console.error("Saving game failed:", error));
+  };
+
+  // Autosave after every move; the board reports a fresh layout with each one
+  useEffect(() => {
+    persistGame(gameState);
+  }, [gameState.savedPieces, gameState.savedTiles]);
+
+  // Also save when the app is backgrounded or closed, which a mobile OS may follow with a kill,
+  // so the clock doesn't lose the time since the last move (or restart a time attack)
+  useEffect(() => {
+    if (view !== 'game') return;
+    const saveNow = () => persistGame(gameState);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', saveNow);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', saveNow);
+    };
+  }, [view, gameState]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes
+  useEffect(() => {
+    if (view !== 'game') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      // Undo would hand back spent moves under a move limit
+      if (moveLimited) return;
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        boardRef.current?.undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        boardRef.current?.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [view, moveLimited]);
 
   useEffect(() => {
-    if (gameState.startTime && !gameState.isSolved) {
+    if (gameState.isSolved && gameState.gameId) {
+      deleteGame(gameState.gameId).catch(error => console.error("Deleting saved game failed:", error));
+    }
+    if (gameState.isSolved && gameState.dailyDate) {
+      saveDailyResult({
+        date: gameState.dailyDate,
+        time: gameState.currentTime,
+        moves: gameState.moves,
+        completedAt: Date.now()
+      }).catch(error => console.error("Saving daily result failed:", error));
+    }
+    // Zen keeps no score
+    if (gameState.isSolved && gameState.gameId && gameState.mode !== 'zen') {
+      const record = {
+        id: gameState.gameId,
+        imageId: gameState.imageId,
+        title: gameState.title,
+        difficulty: gameState.difficulty,
+        time: gameState.currentTime,
+        moves: gameState.moves,
+        hints: gameState.hints,
+        peeks: gameState.peeks,
+        mode: gameState.mode,
+        puzzleType: gameState.puzzleType,
+        rotationMode: gameState.rotationMode,
+        completedAt: Date.now()
+      };
+      loadRecords()
+        .then(previous => {
+          setNewRecord(checkNewRecord(previous, record));
+          return saveRecord(record);
+        })
+        .catch(error => console.error("Saving record failed:", error));
+    }
+  }, [gameState.isSolved, gameState.gameId]);
+
+  // Time attack and move limit fail once their budget runs out, checked only while the game is on screen.
+  // The save is dropped when the player moves on from the failure (see closeResult), not here.
+  useEffect(() => {
+    const { mode, limit, isSolved, isFailed, savedPieces } = gameState;
+    if (view !== 'game' || limit === null || isSolved || isFailed) return;
+    const spent = mode === 'timeAttack' ? gameState.currentTime : gameState.moves;
+    // The move that locks the last piece is reported before the board declares the puzzle solved
+    if (spent < limit || (savedPieces !== null && savedPieces.every(p => p.isLocked))) return;
+    setGameState(prev => ({ ...prev, isFailed: true }));
+  }, [view, gameState.currentTime, gameState.moves]);
+
+  // The stopwatch only runs with the game on screen
+  useEffect(() => {
+    if (view === 'game' && gameState.startTime && !gameState.isSolved && !gameState.isFailed) {
       timerRef.current = window.setInterval(() => {
         setGameState(prev => ({
           ...prev,
@@ -48,82 +264,298 @@ const App: React.FC = () => {
       if (timerRef.current) clearInterval(timerRef.current);
     }
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
-  }, [gameState.startTime, gameState.isSolved]);
+  }, [view, gameState.startTime, gameState.isSolved, gameState.isFailed]);
+
+  // Fetches a picture through `provider` and moves on to `next`; a newer request cancels an older one.
+  // `onLoaded` may adjust the result before the game uses it.
+  const openImage = <T,>(
+    provider: ImageProvider<T>,
+    input: T,
+    label: string,
+    next: 'crop' | 'difficulty',
+    onLoaded?: (result: ImageResult) => ImageResult
+  ) => {
+    imageAbortRef.current?.abort();
+    const controller = new AbortController();
+    imageAbortRef.current = controller;
+    const retry = () => openImage(provider, input, label, next, onLoaded);
+    setImageTask({ label, error: null, retry });
+
+    loadImage(provider, input, controller.signal)
+      .then(result => {
+        imageAbortRef.current = null;
+        setImageTask(null);
+        const loaded = onLoaded ? onLoaded(result) : result;
+        setGameState(prev => ({ ...prev, ...loaded }));
+        setView(next);
+      })
+      .catch(error => {
+        if (error instanceof ImageSourceError && error.kind === 'cancelled') return;
+        console.error("Loading image failed:", error);
+        setImageTask({ label, error: error instanceof Error ? error.message : String(error), retry });
+      });
+  };
+
+  const dismissImageTask = () => {
+    imageAbortRef.current?.abort();
+    imageAbortRef.current = null;
+    setImageTask(null);
+  };
 
+  // Photos and AI art get framed first; gallery pictures are already puzzle-shaped
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        setGameState(prev => ({ ...prev, image: event.target?.result as string }));
-        setView('difficulty');
-      };
-      reader.readAsDataURL(file);
-    }
+    if (file) openImage(uploadProvider, file, 'My Photos', 'crop');
+    // Let the same file be picked again after a failure
+    e.target.value = '';
   };
 
-  // Fix: Added missing selectPredefined function
-  const selectPredefined = (url: string) => {
-    setGameState(prev => ({ ...prev, image: url }));
-    setView('difficulty');
-  };
+  // Collection photos are framed like any other photo; catalog pictures are already puzzle-shaped
+  const selectPredefined = (img: PuzzleMetadata, next: 'crop' | 'difficulty' = 'difficulty') =>
+    openImage(galleryProvider, img, img.title, next);
 
-  const generateAIPicture = async () => {
-    setIsGenerating(true);
-    try {
-      // Fix: Re-instantiate ai client for each call to ensure fresh environment
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: "A high-definition cinematic landscape painting, vibrant colors, 4k detail, wide aspect ratio."
+  // Shows progress and failures of an import through the same status toast as picture loading
+  const runImport = (label: string, task: () => Promise<void>) => {
+    const retry = () => runImport(label, task);
+    setImageTask({ label, error: null, retry });
+    task()
+      .then(() => setImageTask(null))
+      .catch(error => {
+        console.error("Import failed:", error);
+        setImageTask({ label, error: error instanceof Error ? error.message : String(error), retry });
       });
+  };
 
-      const text = response.text || "Fantasy Landscape";
-      const imgAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      // Fix: Corrected the contents structure to use parts property
-      const imgResponse = await imgAi.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: `A beautiful puzzle art based on: ${text.substring(0, 100)}` }] }
-      });
+  const handleCatalogImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    runImport('Importing catalog', async () => {
+      const catalog = await importCatalogFile(file, `catalog-${createGameId()}`);
+      await saveCatalog(catalog);
+      setCatalogs(prev => [...prev, catalog]);
+    });
+  };
 
-      // Find the image part, do not assume it is the first part.
-      if (imgResponse.candidates && imgResponse.candidates[0].content.parts) {
-        for (const part of imgResponse.candidates[0].content.parts) {
-          if (part.inlineData) {
-            setGameState(prev => ({ ...prev, image: `data:image/png;base64,${part.inlineData.data}` }));
-            setView('difficulty');
-            break;
-          }
-        }
-      }
-    } catch (error) {
-      console.error("AI Generation failed:", error);
-    } finally {
-      setIsGenerating(false);
-    }
+  // Picking several photos at once starts a new collection with all of them
+  const createCollection = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = '';
+    if (files.length === 0) return;
+    runImport(`Importing ${files.length} photo${files.length > 1 ? 's' : ''}`, async () => {
+      const id = `collection-${createGameId()}`;
+      const collection: UserCollection = { id, title: `Collection ${collections.length + 1}`, images: await importPhotos(files, id), createdAt: Date.now() };
+      await saveCollection(collection);
+      setCollections(prev => [...prev, collection]);
+      setSelectedCategory(id);
+      setView('category');
+    });
   };
 
-  const startGame = (difficulty: Difficulty) => {
+  const updateCollection = (collection: UserCollection) => {
+    setCollections(prev => prev.map(c => c.id === collection.id ? collection : c));
+    saveCollection(collection).catch(error => console.error("Saving collection failed:", error));
+  };
+
+  const addPhotos = (collection: UserCollection, files: File[]) => {
+    runImport(`Importing ${files.length} photo${files.length > 1 ? 's' : ''}`, async () => {
+      const images = await importPhotos(files, collection.id);
+      updateCollection({ ...collection, images: [...collection.images, ...images] });
+    });
+  };
+
+  // Deletes a whole collection, or the imported catalog a gallery came from
+  const removeCategory = (category: GalleryCategory) => {
+    if (!category.sourceId) return;
+    const id = category.sourceId;
+    const isCollection = category.source === 'collection';
+    (isCollection ? deleteCollection(id) : deleteCatalog(id))
+      .then(() => {
+        setView('main');
+        if (isCollection) setCollections(prev => prev.filter(c => c.id !== id));
+        else setCatalogs(prev => prev.filter(c => c.id !== id));
+      })
+      .catch(error => console.error("Removing gallery failed:", error));
+  };
+
+  // Every generated picture is kept in "My AI Art" and played under its artwork id
+  const generateAIPicture = (request: AiImageRequest) => openImage(aiProvider, request, 'AI Magic', 'crop', result => {
+    const art: AiArtwork = { id: `art-${createGameId()}`, ...request, image: result.image, createdAt: Date.now() };
+    saveArtwork(art)
+      .then(() => setArtwork(prev => [art, ...prev]))
+      .catch(error => console.error("Saving artwork failed:", error));
+    return { ...result, imageId: art.id };
+  });
+
+  const playArtwork = (art: AiArtwork) => {
+    setGameState(prev => ({ ...prev, image: art.image, imageId: art.id, title: art.prompt.trim() || 'AI Magic' }));
+    setView('crop');
+  };
+
+  // The cropped, downscaled picture replaces the original for this game only; saved artwork stays whole
+  const applyCrop = (image: string) => {
+    setGameState(prev => ({ ...prev, image }));
+    setView('difficulty');
+  };
+
+  const removeArtwork = (id: string) => {
+    deleteArtwork(id)
+      .then(() => setArtwork(prev => prev.filter(a => a.id !== id)))
+      .catch(error => console.error("Deleting artwork failed:", error));
+  };
+
+  // `options` overrides the image, seed etc. for puzzles that aren't picked from the menus
+  const startGame = (difficulty: Difficulty, options: Partial<GameState> = {}) => {
+    const mode = options.mode ?? 'classic';
     setGameState(prev => ({
       ...prev,
+      gameId: createGameId(),
       difficulty,
       isSolved: false,
+      isFailed: false,
       moves: 0,
+      hints: 0,
+      peeks: 0,
+      seed: randomSeed(),
+      dailyDate: null,
+      rotationMode: false,
+      mode,
+      limit: modeLimit(mode, difficulty, options.rotationMode ?? false),
+      puzzleType: 'jigsaw',
       startTime: Date.now(),
-      currentTime: 0
+      currentTime: 0,
+      savedPieces: null,
+      savedTiles: null,
+      ...options
+    }));
+    setShowPreview(false);
+    setNewRecord({ time: false, moves: false });
+    setCanUndo(false);
+    setCanRedo(false);
+    setView('game');
+  };
+
+  const restartGame = () => {
+    if (gameState.gameId) {
+      deleteGame(gameState.gameId).catch(error => console.error("Deleting saved game failed:", error));
+    }
+    // The Daily Puzzle restarts with the same deal; anything else is reshuffled
+    startGame(gameState.difficulty, gameState.dailyDate
+      ? { seed: gameState.seed, dailyDate: gameState.dailyDate }
+      : { rotationMode: gameState.rotationMode, mode: gameState.mode, puzzleType: gameState.puzzleType });
+  };
+
+  const startDaily = () => {
+    const today = dateKey();
+    const inProgress = savedGames.find(g => g.dailyDate === today);
+    if (inProgress) {
+      resumeGame(inProgress);
+      return;
+    }
+    const seed = dailySeed(today);
+    const img = BUNDLED_IMAGES[seed % BUNDLED_IMAGES.length];
+    startGame(DAILY_GRID, { image: img.url, imageId: img.id, title: `Daily · ${img.title}`, seed, dailyDate: today });
+  };
+
+  const resumeGame = (saved: SavedGame) => {
+    setGameState(prev => ({
+      ...prev,
+      gameId: saved.id,
+      imageId: saved.imageId ?? null,
+      title: saved.title,
+      image: saved.image,
+      difficulty: saved.difficulty,
+      isSolved: false,
+      moves: saved.moves,
+      hints: saved.hints ?? 0,
+      peeks: saved.peeks ?? 0,
+      seed: saved.seed ?? randomSeed(),
+      dailyDate: saved.dailyDate ?? null,
+      rotationMode: saved.rotationMode ?? false,
+      mode: saved.mode ?? 'classic',
+      limit: saved.limit ?? null,
+      isFailed: false,
+      puzzleType: saved.puzzleType ?? 'jigsaw',
+      // Backdate the start so the stopwatch continues from the saved value
+      startTime: Date.now() - saved.elapsedTime * 1000,
+      currentTime: saved.elapsedTime,
+      savedPieces: saved.pieces,
+      savedTiles: saved.tiles ?? null
     }));
     setShowPreview(false);
+    setNewRecord({ time: false, moves: false });
+    setCanUndo(false);
+    setCanRedo(false);
     setView('game');
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const removeSavedGame = (id: string) => {
+    deleteGame(id)
+      .then(() => setSavedGames(prev => prev.filter(g => g.id !== id)))
+      .catch(error => console.error("Deleting saved game failed:", error));
+  };
+
+  // Stops the clock too; resuming backdates a fresh start from the saved elapsed time
+  const leaveGame = () => {
+    persistGame(gameState);
+    setGameState(prev => ({ ...prev, startTime: null }));
+    setView('main');
+  };
+
+  // Leaving a failure screen for the menu drops the save; retrying replaces it and carrying on keeps saving over it
+  const closeResult = () => {
+    if (gameState.isFailed && gameState.gameId) {
+      deleteGame(gameState.gameId).catch(error => console.error("Deleting saved game failed:", error));
+    }
+    setView('main');
+  };
+
+  const handleMove = (layout: SavedPiece[], delta: number) => {
+    setGameState(prev => ({ ...prev, moves: prev.moves + delta, savedPieces: layout }));
+  };
+
+  // Modes with a countdown or par aren't offered for sliding puzzles, so switching drops back to classic
+  const choosePuzzleType = (type: PuzzleType) => {
+    setPuzzleType(type);
+    if (!modesFor(type).some(m => m.id === gameMode)) setGameMode('classic');
+  };
+
+  const handleSlide = (tiles: number[], delta: number) => {
+    setGameState(prev => ({ ...prev, moves: prev.moves + delta, savedTiles: tiles }));
+  };
+
+  const togglePreview = () => {
+    if (!showPreview) setGameState(prev => ({ ...prev, peeks: prev.peeks + 1 }));
+    setShowPreview(!showPreview);
+  };
+
+  const requestHint = () => {
+    if (boardRef.current?.showHint()) {
+      setGameState(prev => ({ ...prev, hints: prev.hints + 1 }));
+    }
+  };
+
+  const handleHistoryChange = (undoAvailable: boolean, redoAvailable: boolean) => {
+    setCanUndo(undoAvailable);
+    setCanRedo(redoAvailable);
   };
 
+  const categories: GalleryCategory[] = [
+    ...BUNDLED_CATEGORIES,
+    ...catalogs.flatMap(c => c.categories),
+    ...collections.map(collectionCategory)
+  ];
+
+  const isGenerating = imageTask?.label === 'AI Magic' && !imageTask.error;
+  const imageStatus = imageTask && (
+    <ImageStatus label={imageTask.label} error={imageTask.error} onRetry={imageTask.retry} onDismiss={dismissImageTask} />
+  );
+
   // Main Menu View
   if (view === 'main') {
+    const streak = computeStreak(dailyResults.map(r => r.date));
+    const dailyDone = dailyResults.some(r => r.date === dateKey());
+    const solved = new Set(records.map(r => r.imageId));
     return (
       <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col p-6 landscape:flex-row landscape:items-center gap-8 overflow-y-auto landscape:overflow-hidden safe-area-inset">
         <div className="landscape:w-1/3 space-y-6">
@@ -134,8 +566,38 @@ const App: React.FC = () => {
             <h1 className="text-4xl font-extrabold tracking-tight bg-gradient-to-r from-white to-slate-500 bg-clip-text text-transparent">Puzzle Master</h1>
             <p className="text-slate-400 mt-2">Premium Jigsaw experience for S24 FE.</p>
           </div>
+          {!online && (
+            <div role="status" className="inline-flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 border border-amber-500/30 rounded-full text-amber-300 text-xs font-bold">
+              <WifiOff className="w-4 h-4" />
+              Offline · saved and cached pictures only
+            </div>
+          )}
           
           <div className="flex flex-col gap-3">
+            {savedGames.length > 0 && (
+              <button onClick={() => resumeGame(savedGames[0])} className="flex items-center gap-4 p-5 bg-emerald-600/20 border border-emerald-500/30 rounded-2xl hover:bg-emerald-600/30 transition-all active:scale-95">
+                <Play className="text-emerald-400" />
+                <div className="text-left">
+                  <div className="font-bold">Continue</div>
+                  <div className="text-xs text-slate-400">{savedGames[0].title} · {formatGrid(savedGames[0].difficulty)} · {formatTime(savedGames[0].elapsedTime)}</div>
+                </div>
+              </button>
+            )}
+
+            <button onClick={startDaily} className="flex items-center gap-4 p-5 bg-amber-500/10 border border-amber-500/30 rounded-2xl hover:bg-amber-500/20 transition-all active:scale-95">
+              <CalendarDays className="text-amber-400" />
+              <div className="text-left flex-1">
+                <div className="font-bold">Daily Puzzle</div>
+                <div className="text-xs text-slate-400">{dailyDone ? 'Solved today · come back tomorrow' : 'Same puzzle for everyone today'}</div>
+              </div>
+              {streak > 0 && (
+                <div className="flex items-center gap-1 text-amber-400 font-mono font-bold" title="Daily streak">
+                  <Flame className="w-4 h-4" />
+                  {streak}
+                </div>
+              )}
+            </button>
+
             <button onClick={() => document.getElementById('fileInput')?.click()} className="flex items-center gap-4 p-5 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-all active:scale-95">
               <Upload className="text-indigo-400" />
               <div className="text-left">
@@ -145,98 +607,311 @@ const App: React.FC = () => {
               <input id="fileInput" type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
             </button>
 
-            <button onClick={generateAIPicture} disabled={isGenerating} className="flex items-center gap-4 p-5 bg-indigo-600 border border-indigo-500 rounded-2xl hover:bg-indigo-500 transition-all active:scale-95 disabled:opacity-50">
+            <button onClick={() => setView('stats')} className="flex items-center gap-4 p-5 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-all active:scale-95">
+              <ChartBar className="text-indigo-400" />
+              <div className="text-left">
+                <div className="font-bold">Statistics</div>
+                <div className="text-xs text-slate-500">Personal bests and history</div>
+              </div>
+            </button>
+
+            <button onClick={() => setView('settings')} className="flex items-center gap-4 p-5 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-all active:scale-95">
+              <SlidersHorizontal className="text-indigo-400" />
+              <div className="text-left">
+                <div className="font-bold">Settings</div>
+                <div className="text-xs text-slate-500">Snapping, board, effects and sound</div>
+              </div>
+            </button>
+
+            <button onClick={() => setView('ai')} disabled={!online} className="flex items-center gap-4 p-5 bg-indigo-600 border border-indigo-500 rounded-2xl hover:bg-indigo-500 transition-all active:scale-95 disabled:opacity-50">
               <Sparkles className="text-white" />
               <div className="text-left">
-                <div className="font-bold text-white">{isGenerating ? 'Dreaming...' : 'AI Magic'}</div>
-                <div className="text-xs text-indigo-100">AI-generated unique art</div>
+                <div className="font-bold text-white">AI Magic</div>
+                <div className="text-xs text-indigo-100">{online ? 'AI-generated unique art' : 'Needs an internet connection'}</div>
               </div>
             </button>
           </div>
         </div>
 
         <div className="landscape:w-2/3 h-full flex flex-col gap-6">
+          {savedGames.length > 0 && (
+            <div className="space-y-4">
+              <h2 className="text-xl font-bold flex items-center gap-2">
+                <History className="w-5 h-5 text-emerald-400" />
+                Unfinished
+              </h2>
+              <div className="flex gap-4 overflow-x-auto pb-2 custom-scrollbar">
+                {savedGames.map(saved => {
+                  const placed = saved.tiles
+                    ? saved.tiles.filter((tile, cell) => tile === cell).length
+                    : saved.pieces.filter(p => p.isLocked).length;
+                  const total = saved.tiles?.length ?? saved.pieces.length;
+                  return (
+                    <div key={saved.id} className="relative shrink-0 w-44 rounded-2xl overflow-hidden border border-white/10 bg-slate-900/90">
+                      <button onClick={() => resumeGame(saved)} className="block w-full text-left active:scale-95 transition-transform">
+                        <img src={saved.image} className="w-full h-24 object-cover opacity-80" alt={saved.title} />
+                        <div className="p-3 space-y-1">
+                          <div className="text-sm font-medium truncate">{saved.title}</div>
+                          <div className="text-[10px] text-slate-500 font-mono">
+                            {formatGrid(saved.difficulty)} · {placed}/{total} · {formatTime(saved.elapsedTime)}
+                            {saved.puzzleType === 'sliding' && ' · Sliding'}
+                            {saved.mode && saved.mode !== 'classic' && ` · ${modeLabel(saved.mode)}`}
+                          </div>
+                        </div>
+                      </button>
+                      <button
+                        onClick={() => removeSavedGame(saved.id)}
+                        className="absolute top-2 right-2 p-2 bg-black/60 rounded-full text-slate-400 hover:text-white"
+                        title="Discard"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <h2 className="text-xl font-bold flex items-center gap-2">
             <Grid className="w-5 h-5 text-indigo-400" />
             Galleries
           </h2>
           <div className="grid grid-cols-2 gap-4 h-full landscape:overflow-y-auto pr-2 custom-scrollbar">
-            {CATEGORIES.map(cat => (
+            {categories.map(cat => (
               <button
-                key={cat}
-                onClick={() => { setSelectedCategory(cat); setView('category'); }}
-                className="group relative h-40 rounded-3xl overflow-hidden border border-white/10 transition-transform active:scale-95"
+                key={cat.id}
+                onClick={() => { setSelectedCategory(cat.id); setView('category'); }}
+                className="group relative h-40 rounded-3xl overflow-hidden border border-white/10 transition-transform active:scale-95 bg-slate-900"
               >
-                <img 
-                  src={PREDEFINED_IMAGES.find(i => i.category === cat)?.url} 
-                  className="absolute inset-0 w-full h-full object-cover opacity-60 group-hover:opacity-80 transition-opacity" 
-                  alt={cat}
-                />
-                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent flex items-end p-6">
-                  <span className="text-lg font-bold tracking-wide">{cat}</span>
+                {cat.images[0] && (
+                  <img
+                    src={cat.images[0].thumbnail || cat.images[0].url}
+                    className="absolute inset-0 w-full h-full object-cover opacity-60 group-hover:opacity-80 transition-opacity"
+                    alt={cat.title}
+                  />
+                )}
+                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent flex items-end justify-between gap-2 p-6">
+                  <span className="text-lg font-bold tracking-wide truncate">{cat.title}</span>
+                  <span className="flex items-center gap-1 text-sm font-mono text-slate-300">
+                    <Trophy className="w-4 h-4" />
+                    {cat.images.filter(img => solved.has(img.id)).length}/{cat.images.length}
+                  </span>
                 </div>
               </button>
             ))}
+            <button
+              onClick={() => setView('artwork')}
+              className="group relative h-40 rounded-3xl overflow-hidden border border-white/10 transition-transform active:scale-95 bg-gradient-to-br from-indigo-900 to-fuchsia-900"
+            >
+              {artwork[0] && (
+                <img
+                  src={artwork[0].image}
+                  className="absolute inset-0 w-full h-full object-cover opacity-60 group-hover:opacity-80 transition-opacity"
+                  alt="My AI Art"
+                />
+              )}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent flex items-end justify-between p-6">
+                <span className="text-lg font-bold tracking-wide">My AI Art</span>
+                <span className="flex items-center gap-1 text-sm font-mono text-indigo-200">
+                  <Sparkles className="w-4 h-4" />
+                  {artwork.length}
+                </span>
+              </div>
+            </button>
+            <button
+              onClick={() => document.getElementById('collectionInput')?.click()}
+              className="h-40 rounded-3xl border border-dashed border-white/20 flex flex-col items-center justify-center gap-2 text-slate-400 hover:text-white hover:border-indigo-500 transition-all active:scale-95"
+            >
+              <FolderPlus className="w-8 h-8" />
+              <span className="font-bold">New collection</span>
+              <span className="text-xs text-slate-500">Import several photos at once</span>
+              <input id="collectionInput" type="file" accept="image/*" multiple className="hidden" onChange={createCollection} />
+            </button>
+            <button
+              onClick={() => document.getElementById('catalogInput')?.click()}
+              className="h-40 rounded-3xl border border-dashed border-white/20 flex flex-col items-center justify-center gap-2 text-slate-400 hover:text-white hover:border-indigo-500 transition-all active:scale-95"
+            >
+              <FileJson className="w-8 h-8" />
+              <span className="font-bold">Import catalog</span>
+              <span className="text-xs text-slate-500">Galleries from a JSON file</span>
+              <input id="catalogInput" type="file" accept="application/json,.json" className="hidden" onChange={handleCatalogImport} />
+            </button>
           </div>
         </div>
+        {imageStatus}
       </div>
     );
   }
 
+  if (view === 'stats') {
+    return <StatsView onBack={() => setView('main')} />;
+  }
+
+  if (view === 'settings') {
+    return <SettingsView settings={settings} onChange={updateSettings} onBack={() => setView('main')} />;
+  }
+
+  if (view === 'ai') {
+    return (
+      <>
+        <AiPromptView isGenerating={isGenerating} offline={!online} onGenerate={generateAIPicture} onBack={() => { dismissImageTask(); setView('main'); }} />
+        {imageStatus}
+      </>
+    );
+  }
+
+  if (view === 'artwork') {
+    return (
+      <ArtworkView
+        artwork={artwork}
+        onPlay={playArtwork}
+        onDelete={removeArtwork}
+        onCreate={() => setView('ai')}
+        onBack={() => setView('main')}
+      />
+    );
+  }
+
+  if (view === 'crop') {
+    return <CropEditor image={gameState.image!} onConfirm={applyCrop} onCancel={() => setView('main')} />;
+  }
+
   // Category View (Gallery)
-  if (view === 'category') {
+  const category = categories.find(c => c.id === selectedCategory);
+  if (view === 'category' && category) {
+    const collection = collections.find(c => c.id === category.sourceId);
     return (
-      <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col p-6 safe-area-inset">
-        <div className="flex items-center gap-4 mb-8">
-          <button onClick={() => setView('main')} className="p-3 bg-white/5 rounded-full hover:bg-white/10">
-            <ChevronLeft className="w-6 h-6" />
-          </button>
-          <h1 className="text-2xl font-bold">{selectedCategory}</h1>
-        </div>
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 overflow-y-auto h-full pr-2">
-          {PREDEFINED_IMAGES.filter(i => i.category === selectedCategory).map(img => (
-            <button 
-              key={img.id} 
-              onClick={() => selectPredefined(img.url)}
-              className="group aspect-video rounded-2xl overflow-hidden border border-white/10 transition-all hover:border-indigo-500 active:scale-95"
-            >
-              <img src={img.url} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" alt={img.title} />
-              <div className="p-3 bg-slate-900/90 text-sm font-medium text-center">{img.title}</div>
-            </button>
-          ))}
-        </div>
-      </div>
+      <>
+        <CategoryView
+          category={category}
+          bests={imageBests(records)}
+          onSelect={img => selectPredefined(img, collection ? 'crop' : 'difficulty')}
+          onBack={() => setView('main')}
+          onRemove={() => removeCategory(category)}
+          onAddPhotos={files => collection && addPhotos(collection, files)}
+          onRemoveImage={id => collection && updateCollection({ ...collection, images: collection.images.filter(img => img.id !== id) })}
+          onRename={title => collection && updateCollection({ ...collection, title })}
+        />
+        {imageStatus}
+      </>
     );
   }
 
   // Difficulty Selection
   if (view === 'difficulty') {
+    const sliding = puzzleType === 'sliding';
+    const modes = modesFor(puzzleType);
+    const challenge = { rotationMode: rotatePieces && !sliding, mode: gameMode, puzzleType };
+    const presets = sliding
+      ? SLIDING_PRESETS.map(preset => ({ l: preset.l, grid: { rows: preset.size, cols: preset.size }, preferred: false }))
+      : PIECE_COUNT_PRESETS.map(preset => ({ l: preset.l, grid: gridForPieceCount(preset.count, imageAspect), preferred: preset.count === settings.defaultPieceCount }));
     return (
       <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col landscape:flex-row items-center justify-center p-8 gap-12 safe-area-inset">
         <div className="w-full max-w-sm aspect-video rounded-3xl overflow-hidden shadow-2xl border border-white/10">
-          <img src={gameState.image!} className="w-full h-full object-cover" alt="Preview" />
+          <img
+            src={gameState.image!}
+            className="w-full h-full object-cover"
+            alt="Preview"
+            onLoad={(e) => setImageAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+          />
         </div>
         <div className="w-full max-w-md space-y-8">
           <div className="text-center landscape:text-left">
             <h2 className="text-3xl font-bold italic tracking-tighter">SELECT CHALLENGE</h2>
           </div>
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              {PUZZLE_TYPES.map(type => (
+                <button
+                  key={type.id}
+                  onClick={() => choosePuzzleType(type.id)}
+                  className={`p-3 rounded-2xl border text-sm font-bold transition-all ${puzzleType === type.id ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                  aria-pressed={puzzleType === type.id}
+                  title={type.description}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${modes.length}, minmax(0, 1fr))` }}>
+              {modes.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => setGameMode(mode.id)}
+                  className={`p-3 rounded-2xl border text-xs font-bold transition-all ${gameMode === mode.id ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                  aria-pressed={gameMode === mode.id}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 text-center landscape:text-left">{modes.find(m => m.id === gameMode)?.description}</p>
+          </div>
           <div className="grid grid-cols-2 gap-4">
-            {[
-              { l: 'Easy', d: Difficulty.EASY, desc: '3x3 Pieces' },
-              { l: 'Medium', d: Difficulty.MEDIUM, desc: '4x4 Pieces' },
-              { l: 'Hard', d: Difficulty.HARD, desc: '6x6 Pieces' },
-              { l: 'Expert', d: Difficulty.EXPERT, desc: '8x8 Pieces' },
-            ].map(diff => (
-              <button 
-                key={diff.d} 
-                onClick={() => startGame(diff.d)}
-                className="flex flex-col items-center p-5 bg-white/5 border border-white/10 rounded-2xl hover:bg-indigo-600 hover:border-indigo-500 transition-all group"
+            {presets.map(({ l, grid, preferred }) => {
+              const limit = modeLimit(gameMode, grid, challenge.rotationMode);
+              return (
+                <button 
+                  key={l} 
+                  onClick={() => startGame(grid, challenge)}
+                  autoFocus={preferred}
+                  className={`flex flex-col items-center p-5 bg-white/5 border rounded-2xl hover:bg-indigo-600 hover:border-indigo-500 transition-all group ${preferred ? 'border-indigo-500 ring-2 ring-indigo-500/40' : 'border-white/10'}`}
+                >
+                  <div className="text-lg font-bold group-hover:text-white">{l}</div>
+                  <div className="text-xs text-slate-500 group-hover:text-indigo-200">{grid.rows * grid.cols} {sliding ? 'Tiles' : 'Pieces'} · {formatGrid(grid)}</div>
+                  {limit !== null && (
+                    <div className="text-[10px] font-mono text-slate-500 group-hover:text-indigo-200">
+                      {gameMode === 'timeAttack' ? formatTime(limit) : `Par ${limit}`}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          {/* Sliding puzzles stay square, so they only come in the preset sizes */}
+          {!sliding && (
+            <div className="flex items-center gap-3 p-4 bg-white/5 border border-white/10 rounded-2xl">
+              <div className="text-sm font-bold flex-1">Custom</div>
+              {(['cols', 'rows'] as const).map(axis => (
+                <label key={axis} className="flex flex-col items-center text-[10px] uppercase font-black text-slate-500">
+                  {axis === 'cols' ? 'Columns' : 'Rows'}
+                  <input
+                    type="number"
+                    min={MIN_GRID_SIZE}
+                    max={MAX_GRID_SIZE}
+                    value={customGrid[axis]}
+                    onChange={(e) => setCustomGrid(prev => ({ ...prev, [axis]: Number(e.target.value) }))}
+                    className="w-16 mt-1 p-2 bg-black/40 border border-white/10 rounded-xl text-center text-base font-mono text-white"
+                  />
+                </label>
+              ))}
+              <button
+                onClick={() => startGame({
+                  rows: Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(customGrid.rows) || MIN_GRID_SIZE)),
+                  cols: Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(customGrid.cols) || MIN_GRID_SIZE))
+                }, challenge)}
+                className="px-4 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold text-sm"
               >
-                <div className="text-lg font-bold group-hover:text-white">{diff.l}</div>
-                <div className="text-xs text-slate-500 group-hover:text-indigo-200">{diff.desc}</div>
+                Start
               </button>
-            ))}
-          </div>
+            </div>
+          )}
+          {!sliding && (
+            <button
+              onClick={() => setRotatePieces(!rotatePieces)}
+              className={`w-full flex items-center gap-4 p-4 rounded-2xl border transition-all ${rotatePieces ? 'bg-indigo-600/20 border-indigo-500' : 'bg-white/5 border-white/10'}`}
+            >
+              <RotateCw className={rotatePieces ? 'text-indigo-400' : 'text-slate-500'} />
+              <div className="text-left flex-1">
+                <div className="text-sm font-bold">Rotate pieces</div>
+                <div className="text-xs text-slate-500">Tap, twist or press R to turn a piece upright</div>
+              </div>
+              <div className={`w-10 h-6 rounded-full p-1 transition-colors ${rotatePieces ? 'bg-indigo-500' : 'bg-white/10'}`}>
+                <div className={`w-4 h-4 rounded-full bg-white transition-transform ${rotatePieces ? 'translate-x-4' : ''}`} />
+              </div>
+            </button>
+          )}
           <button onClick={() => setView('main')} className="w-full py-4 text-slate-500 hover:text-white transition-colors">Back</button>
         </div>
       </div>
@@ -246,82 +921,152 @@ const App: React.FC = () => {
   // Game View
   return (
     <div className="fixed inset-0 bg-[#050507] flex flex-col overflow-hidden">
-      <header className="h-14 landscape:h-12 flex items-center justify-between px-6 bg-slate-900/60 backdrop-blur-xl border-b border-white/5 z-50">
+      <header className="relative h-14 landscape:h-12 flex items-center justify-between px-6 bg-slate-900/60 backdrop-blur-xl border-b border-white/5 z-50">
         <div className="flex items-center gap-4">
-          <button onClick={() => setView('main')} className="p-2 text-slate-400 hover:text-white transition-colors">
+          <button onClick={leaveGame} className="p-2 text-slate-400 hover:text-white transition-colors">
             <ChevronLeft />
           </button>
           <div className="h-6 w-[1px] bg-white/10 hidden landscape:block" />
           <button 
-            onClick={() => setShowPreview(!showPreview)} 
+            onClick={togglePreview} 
             className={`p-2 rounded-xl transition-all flex items-center gap-2 ${showPreview ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-white/5'}`}
             title="Peek original"
           >
             {showPreview ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
             <span className="text-xs font-bold uppercase hidden landscape:inline">Peek</span>
           </button>
+          {/* Sliding puzzles have no hints, history or camera */}
+          {!slidingPuzzle && (
+            <>
+              <button
+                onClick={requestHint}
+                className="p-2 rounded-xl transition-all flex items-center gap-2 text-slate-400 hover:bg-white/5 hover:text-amber-300"
+                title="Hint"
+              >
+                <Lightbulb className="w-5 h-5" />
+                <span className="text-xs font-bold uppercase hidden landscape:inline">Hint</span>
+              </button>
+              <button
+                onClick={() => boardRef.current?.undo()}
+                disabled={!canUndo || moveLimited}
+                className="p-2 text-slate-400 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => boardRef.current?.redo()}
+                disabled={!canRedo || moveLimited}
+                className="p-2 text-slate-400 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="w-5 h-5" />
+              </button>
+            </>
+          )}
         </div>
         
-        <div className="flex items-center gap-12">
-          <div className="flex flex-col items-center">
-            <span className="text-[9px] text-slate-500 uppercase font-black tracking-widest">Time</span>
-            <span className="text-lg font-mono font-bold text-white">{formatTime(gameState.currentTime)}</span>
-          </div>
-          <div className="flex flex-col items-center">
-            <span className="text-[9px] text-slate-500 uppercase font-black tracking-widest">Moves</span>
-            <span className="text-lg font-mono font-bold text-white">{gameState.moves}</span>
+        {gameState.mode !== 'zen' && (
+          <div className="flex items-center gap-12">
+            {gameState.mode === 'timeAttack' && gameState.limit !== null ? (
+              <div className="flex flex-col items-center">
+                <span className="text-[9px] text-slate-500 uppercase font-black tracking-widest">Left</span>
+                <span className={`text-lg font-mono font-bold ${gameState.limit - gameState.currentTime <= 30 ? 'text-red-400' : 'text-white'}`}>
+                  {formatTime(Math.max(0, gameState.limit - gameState.currentTime))}
+                </span>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center">
+                <span className="text-[9px] text-slate-500 uppercase font-black tracking-widest">Time</span>
+                <span className="text-lg font-mono font-bold text-white">{formatTime(gameState.currentTime)}</span>
+              </div>
+            )}
+            <div className="flex flex-col items-center">
+              <span className="text-[9px] text-slate-500 uppercase font-black tracking-widest">{moveLimited ? 'Par' : 'Moves'}</span>
+              <span className={`text-lg font-mono font-bold ${moveLimited && gameState.limit !== null && gameState.limit - gameState.moves <= 5 ? 'text-red-400' : 'text-white'}`}>
+                {moveLimited ? `${gameState.moves}/${gameState.limit}` : gameState.moves}
+              </span>
+            </div>
           </div>
-        </div>
+        )}
 
         <div className="flex items-center gap-4">
-          <button onClick={() => setIsMuted(!isMuted)} className="p-2 text-slate-400 hover:text-white">
-            {isMuted ? <VolumeX /> : <Volume2 />}
+          {!online && (
+            <span className="p-2 text-amber-400" title="Offline" role="status" aria-label="Offline">
+              <WifiOff className="w-5 h-5" />
+            </span>
+          )}
+          {!slidingPuzzle && (
+            <button onClick={() => boardRef.current?.resetView()} className="p-2 text-slate-400 hover:text-white transition-colors" title="Fit board">
+              <Maximize className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => updateSettings({ highContrast: !settings.highContrast })}
+            className={`p-2 rounded-xl transition-all ${settings.highContrast ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            title="High-contrast outlines"
+            aria-pressed={settings.highContrast}
+          >
+            <Contrast className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowSoundSettings(!showSoundSettings)}
+            className={`p-2 rounded-xl transition-all ${showSoundSettings ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white'}`}
+            title="Sound"
+            aria-expanded={showSoundSettings}
+          >
+            {settings.muted ? <VolumeX /> : <Volume2 />}
           </button>
-          <button onClick={() => startGame(gameState.difficulty)} className="p-2 text-slate-400 hover:text-white transition-colors">
+          <button onClick={restartGame} className="p-2 text-slate-400 hover:text-white transition-colors">
             <RotateCcw />
           </button>
         </div>
+        {showSoundSettings && (
+          <SoundSettings settings={settings} onChange={updateSettings} onClose={() => setShowSoundSettings(false)} />
+        )}
       </header>
 
       <main className="flex-1 relative touch-none overflow-hidden bg-slate-950">
-        <PuzzleBoard 
-          image={gameState.image!} 
-          difficulty={gameState.difficulty}
-          showPreview={showPreview}
-          isMuted={isMuted}
-          onSolved={() => setGameState(prev => ({ ...prev, isSolved: true }))}
-          onMove={() => setGameState(prev => ({ ...prev, moves: prev.moves + 1 }))}
-        />
+        {slidingPuzzle ? (
+          <SlidingBoard
+            key={gameState.gameId}
+            image={gameState.image!}
+            difficulty={gameState.difficulty}
+            seed={gameState.seed}
+            showPreview={showPreview}
+            settings={settings}
+            initialTiles={gameState.savedTiles}
+            onSolved={() => setGameState(prev => ({ ...prev, isSolved: true }))}
+            onMove={handleSlide}
+          />
+        ) : (
+          <PuzzleBoard 
+            key={gameState.gameId}
+            ref={boardRef}
+            image={gameState.image!} 
+            difficulty={gameState.difficulty}
+            seed={gameState.seed}
+            rotationMode={gameState.rotationMode}
+            showPreview={showPreview}
+            settings={settings}
+            initialLayout={gameState.savedPieces}
+            onSolved={() => setGameState(prev => ({ ...prev, isSolved: true }))}
+            onMove={handleMove}
+            onHistoryChange={handleHistoryChange}
+          />
+        )}
       </main>
 
-      {gameState.isSolved && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/85 backdrop-blur-md animate-in fade-in duration-500">
-          <div className="w-full max-w-sm bg-[#0a0a0c] border border-white/10 rounded-[3rem] p-10 text-center space-y-8 shadow-2xl">
-            <div className="inline-flex items-center justify-center w-28 h-28 bg-emerald-500/10 rounded-full border border-emerald-500/20">
-              <Trophy className="w-14 h-14 text-emerald-500 animate-bounce" />
-            </div>
-            <div className="space-y-2">
-              <h2 className="text-4xl font-black text-white italic tracking-tighter uppercase">LEGENDARY!</h2>
-              <p className="text-slate-500 text-sm">Challenge completed with precision.</p>
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="bg-white/5 border border-white/5 p-4 rounded-3xl">
-                <div className="text-[10px] uppercase font-black text-slate-500">Time</div>
-                <div className="text-2xl font-mono font-bold">{formatTime(gameState.currentTime)}</div>
-              </div>
-              <div className="bg-white/5 border border-white/5 p-4 rounded-3xl">
-                <div className="text-[10px] uppercase font-black text-slate-500">Moves</div>
-                <div className="text-2xl font-mono font-bold">{gameState.moves}</div>
-              </div>
-            </div>
-            <button 
-              onClick={() => setView('main')}
-              className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black text-lg shadow-xl shadow-indigo-600/30 transition-all active:scale-95 uppercase tracking-widest"
-            >
-              Perfect!
-            </button>
-          </div>
-        </div>
+      {(gameState.isSolved || gameState.isFailed) && (
+        <GameResult
+          game={gameState}
+          newRecord={newRecord}
+          animate={settings.effects}
+          onDone={closeResult}
+          onRetry={restartGame}
+          // Carrying on after a failure drops the limit and, like zen, keeps no score
+          onKeepPlaying={() => setGameState(prev => ({ ...prev, mode: 'zen', limit: null, isFailed: false }))}
+        />
       )}
     </div>
   );
@@ -0,0 +1,92 @@
+
+import React, { useState } from 'react';
+import { ChevronLeft, Sparkles } from 'lucide-react';
+import { AiImageRequest } from '../services/imageProviders';
+import { ART_STYLES, ASPECT_RATIOS, DEFAULT_ART_PROMPT, ratioValue } from '../utils/artStyles';
+
+interface AiPromptViewProps {
+  isGenerating: boolean;
+  offline: boolean; // generation needs the network
+  onGenerate: (request: AiImageRequest) => void;
+  onBack: () => void;
+}
+
+const AiPromptView: React.FC<AiPromptViewProps> = ({ isGenerating, offline, onGenerate, onBack }) => {
+  const [prompt, setPrompt] = useState('');
+  const [style, setStyle] = useState(ART_STYLES[0].id);
+  const [aspectRatio, setAspectRatio] = useState(ASPECT_RATIOS[0]);
+
+  return (
+    <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col p-6 safe-area-inset">
+      <div className="flex items-center gap-4 mb-8">
+        <button onClick={onBack} className="p-3 bg-white/5 rounded-full hover:bg-white/10">
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-2xl font-bold">AI Magic</h1>
+      </div>
+
+      <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
+        <div className="max-w-2xl mx-auto space-y-8">
+          <section className="space-y-3">
+            <label htmlFor="aiPrompt" className="text-[10px] uppercase font-black text-slate-500">Describe your picture</label>
+            <textarea
+              id="aiPrompt"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder={`${DEFAULT_ART_PROMPT}...`}
+              rows={3}
+              maxLength={500}
+              className="w-full p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-100 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500 resize-none"
+            />
+          </section>
+
+          <section className="space-y-3">
+            <div className="text-[10px] uppercase font-black text-slate-500">Style</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {ART_STYLES.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => setStyle(s.id)}
+                  className={`p-3 rounded-2xl border text-sm font-bold transition-all active:scale-95 ${style === s.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <div className="text-[10px] uppercase font-black text-slate-500">Shape</div>
+            <div className="flex flex-wrap items-end gap-3">
+              {ASPECT_RATIOS.map(ratio => (
+                <button
+                  key={ratio}
+                  onClick={() => setAspectRatio(ratio)}
+                  className={`flex flex-col items-center gap-2 p-3 rounded-2xl border transition-all active:scale-95 ${aspectRatio === ratio ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                >
+                  <div
+                    className="border-2 border-current rounded"
+                    style={{ width: 40 * Math.min(1, ratioValue(ratio)), height: 40 / Math.max(1, ratioValue(ratio)) }}
+                  />
+                  <span className="text-xs font-mono font-bold">{ratio}</span>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <button
+            onClick={() => onGenerate({ prompt, style, aspectRatio })}
+            disabled={isGenerating || offline}
+            className="w-full flex items-center justify-center gap-3 p-5 bg-indigo-600 border border-indigo-500 rounded-2xl hover:bg-indigo-500 transition-all active:scale-95 disabled:opacity-50 font-bold text-white"
+          >
+            <Sparkles className="w-5 h-5" />
+            {isGenerating ? 'Dreaming...' : offline ? 'Offline' : 'Create Puzzle'}
+          </button>
+          {offline && <p className="text-center text-xs text-slate-500">AI Magic comes back once you're online again.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiPromptView;
@@ -0,0 +1,61 @@
+
+import React from 'react';
+import { ChevronLeft, Play, Sparkles, Trash2 } from 'lucide-react';
+import { AiArtwork } from '../types';
+import { artStyleLabel } from '../utils/artStyles';
+
+interface ArtworkViewProps {
+  artwork: AiArtwork[];
+  onPlay: (artwork: AiArtwork) => void;
+  onDelete: (id: string) => void;
+  onCreate: () => void;
+  onBack: () => void;
+}
+
+// The "My AI Art" gallery: every generated picture with the prompt that made it
+const ArtworkView: React.FC<ArtworkViewProps> = ({ artwork, onPlay, onDelete, onCreate, onBack }) => (
+  <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col p-6 safe-area-inset">
+    <div className="flex items-center gap-4 mb-8">
+      <button onClick={onBack} className="p-3 bg-white/5 rounded-full hover:bg-white/10">
+        <ChevronLeft className="w-6 h-6" />
+      </button>
+      <h1 className="text-2xl font-bold flex-1">My AI Art</h1>
+      <button onClick={onCreate} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 rounded-xl hover:bg-indigo-500 text-sm font-bold">
+        <Sparkles className="w-4 h-4" /> New
+      </button>
+    </div>
+
+    {artwork.length === 0 ? (
+      <div className="flex-1 flex flex-col items-center justify-center text-slate-500 gap-4">
+        <Sparkles className="w-12 h-12" />
+        <p>Pictures you create with AI Magic are kept here.</p>
+      </div>
+    ) : (
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 overflow-y-auto h-full pr-2 custom-scrollbar content-start">
+        {artwork.map(art => (
+          <div key={art.id} className="rounded-2xl overflow-hidden border border-white/10 bg-slate-900/90 flex flex-col">
+            <button onClick={() => onPlay(art)} className="group aspect-video overflow-hidden">
+              <img src={art.image} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" alt={art.prompt || 'AI art'} />
+            </button>
+            <div className="p-3 flex-1 space-y-1">
+              <div className="text-sm font-medium line-clamp-2">{art.prompt || 'Surprise picture'}</div>
+              <div className="text-xs text-slate-500">
+                {artStyleLabel(art.style)} · {art.aspectRatio} · {new Date(art.createdAt).toLocaleDateString()}
+              </div>
+            </div>
+            <div className="flex border-t border-white/5">
+              <button onClick={() => onPlay(art)} className="flex-1 flex items-center justify-center gap-2 p-3 text-sm font-bold hover:bg-white/5">
+                <Play className="w-4 h-4" /> Play
+              </button>
+              <button onClick={() => onDelete(art.id)} className="p-3 text-slate-500 hover:text-red-400 hover:bg-white/5" title="Delete">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default ArtworkView;
@@ -0,0 +1,117 @@
+
+import React, { useRef } from 'react';
+import { ChevronLeft, ImagePlus, Trash2, Trophy } from 'lucide-react';
+import { GalleryCategory, PuzzleMetadata } from '../types';
+import { ImageBest } from '../utils/stats';
+import { formatGrid } from '../utils/grid';
+import { formatTime } from '../utils/time';
+
+interface CategoryViewProps {
+  category: GalleryCategory;
+  bests: Map<string, ImageBest>;
+  onSelect: (image: PuzzleMetadata) => void;
+  onBack: () => void;
+  onRemove: () => void; // deletes a collection or an imported catalog; unused for bundled galleries
+  // Collections only
+  onAddPhotos: (files: File[]) => void;
+  onRemoveImage: (id: string) => void;
+  onRename: (title: string) => void;
+}
+
+// One gallery's pictures, each with its completion badge and best result
+const CategoryView: React.FC<CategoryViewProps> = ({ category, bests, onSelect, onBack, onRemove, onAddPhotos, onRemoveImage, onRename }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const isCollection = category.source === 'collection';
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    if (files.length) onAddPhotos(files);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col p-6 safe-area-inset">
+      <div className="flex items-center gap-4 mb-8">
+        <button onClick={onBack} className="p-3 bg-white/5 rounded-full hover:bg-white/10">
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        {isCollection ? (
+          <input
+            key={category.id}
+            defaultValue={category.title}
+            onBlur={(e) => { if (e.target.value.trim() && e.target.value !== category.title) onRename(e.target.value.trim()); }}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            aria-label="Collection name"
+            className="flex-1 min-w-0 bg-transparent text-2xl font-bold outline-none border-b border-transparent focus:border-indigo-500"
+          />
+        ) : (
+          <h1 className="text-2xl font-bold flex-1">{category.title}</h1>
+        )}
+        {isCollection && (
+          <button onClick={() => fileRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 rounded-xl hover:bg-indigo-500 text-sm font-bold">
+            <ImagePlus className="w-4 h-4" /> Add photos
+            <input ref={fileRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+          </button>
+        )}
+        {category.source !== 'bundled' && (
+          <button onClick={onRemove} className="p-3 bg-white/5 rounded-full text-slate-400 hover:text-red-400 hover:bg-white/10" title={isCollection ? 'Delete collection' : 'Remove catalog'}>
+            <Trash2 className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {category.images.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-slate-500 gap-4">
+          <ImagePlus className="w-12 h-12" />
+          <p>Add photos to start this collection.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 overflow-y-auto h-full pr-2 custom-scrollbar content-start">
+          {category.images.map(img => {
+            const best = bests.get(img.id);
+            return (
+              <div key={img.id} className="relative rounded-2xl overflow-hidden border border-white/10 bg-slate-900/90 transition-all hover:border-indigo-500">
+                <button onClick={() => onSelect(img)} className="group block w-full aspect-video overflow-hidden active:scale-95 transition-transform">
+                  <img src={img.thumbnail || img.url} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" alt={img.title} />
+                </button>
+                {best && (
+                  <div className="absolute top-2 left-2 flex items-center gap-1 px-2 py-1 bg-emerald-500/90 rounded-full text-[10px] font-black uppercase" title={`Solved ${best.plays}×`}>
+                    <Trophy className="w-3 h-3" /> {formatGrid(best.difficulty)}
+                  </div>
+                )}
+                {isCollection && (
+                  <button
+                    onClick={() => onRemoveImage(img.id)}
+                    className="absolute top-2 right-2 p-2 bg-black/60 rounded-full text-slate-400 hover:text-white"
+                    title="Remove from collection"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+                <div className="p-3 space-y-1">
+                  <div className="text-sm font-medium text-center truncate">{img.title}</div>
+                  <div className="text-[10px] text-slate-500 font-mono text-center">
+                    {best ? `Best ${formatTime(best.bestTime)} · ${best.fewestMoves} moves` : 'Not solved yet'}
+                  </div>
+                  {img.attribution && (
+                    <div className="text-[10px] text-slate-600 text-center truncate">
+                      {img.attribution.url ? (
+                        <a href={img.attribution.url} target="_blank" rel="noreferrer" className="hover:text-slate-400">
+                          {img.attribution.author ? `${img.attribution.author} · ` : ''}{img.attribution.source}
+                        </a>
+                      ) : (
+                        <>{img.attribution.author ? `${img.attribution.author} · ` : ''}{img.attribution.source}</>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryView;
@@ -0,0 +1,255 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronLeft, RotateCw } from 'lucide-react';
+
+interface CropEditorProps {
+  image: string;
+  onConfirm: (image: string) => void;
+  onCancel: () => void;
+}
+
+type CropPreset = 'free' | 'square' | 'wide' | 'screen';
+
+const PRESETS: { id: CropPreset; label: string }[] = [
+  { id: 'free', label: 'Free' },
+  { id: 'square', label: 'Square' },
+  { id: 'wide', label: '16:9' },
+  { id: 'screen', label: 'Screen' },
+];
+
+// Longest side of the cropped picture; camera photos are often 4000px+ and would be sliced at full size otherwise
+const MAX_OUTPUT_SIZE = 2048;
+// Share of the editor the frame fills when fitted
+const FRAME_FILL = 0.85;
+const MIN_FRAME = 60;
+const MAX_ZOOM = 8; // relative to the smallest scale that still covers the frame
+
+// How the picture sits under the frame: scale, and picture-centre offset from the frame centre in screen pixels
+interface Framing {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const presetAspect = (preset: CropPreset, imageAspect: number) => {
+  if (preset === 'square') return 1;
+  if (preset === 'wide') return 16 / 9;
+  if (preset === 'screen') return window.innerWidth / window.innerHeight;
+  return imageAspect;
+};
+
+// Largest frame of the given aspect that fits the editor area
+const fitFrame = (aspect: number, areaW: number, areaH: number) => {
+  const w = Math.min(areaW * FRAME_FILL, areaH * FRAME_FILL * aspect);
+  return { w, h: w / aspect };
+};
+
+// Keeps the picture covering the whole frame
+const clampFraming = (framing: Framing, frameW: number, frameH: number, imgW: number, imgH: number): Framing => {
+  const minScale = Math.max(frameW / imgW, frameH / imgH);
+  const scale = Math.max(minScale, Math.min(minScale * MAX_ZOOM, framing.scale));
+  const spareX = (imgW * scale - frameW) / 2;
+  const spareY = (imgH * scale - frameH) / 2;
+  return {
+    scale,
+    x: Math.max(-spareX, Math.min(spareX, framing.x)),
+    y: Math.max(-spareY, Math.min(spareY, framing.y))
+  };
+};
+
+const CropEditor: React.FC<CropEditorProps> = ({ image, onConfirm, onCancel }) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [area, setArea] = useState({ w: 0, h: 0 });
+  const [preset, setPreset] = useState<CropPreset>('free');
+  const [rotation, setRotation] = useState(0);
+  const [frame, setFrame] = useState({ w: 0, h: 0 });
+  const [framing, setFraming] = useState<Framing>({ scale: 1, x: 0, y: 0 });
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ framing: Framing; dist: number; midX: number; midY: number } | null>(null);
+  // Corner being dragged to resize a free frame
+  const resizeRef = useRef<number | null>(null);
+
+  // Picture size once turned
+  const turned = rotation % 180 !== 0;
+  const imgW = img ? (turned ? img.naturalHeight : img.naturalWidth) : 1;
+  const imgH = img ? (turned ? img.naturalWidth : img.naturalHeight) : 1;
+
+  useEffect(() => {
+    const el = new Image();
+    el.onload = () => setImg(el);
+    el.src = image;
+  }, [image]);
+
+  useEffect(() => {
+    const measure = () => {
+      if (areaRef.current) setArea({ w: areaRef.current.clientWidth, h: areaRef.current.clientHeight });
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // New picture, preset, turn or editor size: fit the frame again and show the whole picture width or height
+  useEffect(() => {
+    if (!img || !area.w || !area.h) return;
+    const fitted = fitFrame(presetAspect(preset, imgW / imgH), area.w, area.h);
+    setFrame(fitted);
+    setFraming(clampFraming({ scale: 0, x: 0, y: 0 }, fitted.w, fitted.h, imgW, imgH));
+  }, [img, area, preset, imgW, imgH]);
+
+  const toAreaPoint = (e: React.PointerEvent | React.WheelEvent) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startGesture = () => {
+    const points = [...pointersRef.current.values()];
+    if (points.length === 0) {
+      gestureRef.current = null;
+      return;
+    }
+    const [a, b = a] = points;
+    gestureRef.current = { framing, dist: Math.hypot(a.x - b.x, a.y - b.y), midX: (a.x + b.x) / 2, midY: (a.y + b.y) / 2 };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, toAreaPoint(e));
+    startGesture();
+  };
+
+  // One finger pans; two pinch-zoom while their midpoint pans
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    const point = toAreaPoint(e);
+
+    if (resizeRef.current === e.pointerId) {
+      const w = Math.max(MIN_FRAME, Math.min(area.w * FRAME_FILL, Math.abs(point.x - area.w / 2) * 2));
+      const h = Math.max(MIN_FRAME, Math.min(area.h * FRAME_FILL, Math.abs(point.y - area.h / 2) * 2));
+      setFrame({ w, h });
+      setFraming(prev => clampFraming(prev, w, h, imgW, imgH));
+      return;
+    }
+
+    pointersRef.current.set(e.pointerId, point);
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    const [a, b = a] = [...pointersRef.current.values()];
+    const zoom = gesture.dist > 0 ? Math.hypot(a.x - b.x, a.y - b.y) / gesture.dist : 1;
+    setFraming(clampFraming({
+      scale: gesture.framing.scale * zoom,
+      x: gesture.framing.x * zoom + (a.x + b.x) / 2 - gesture.midX,
+      y: gesture.framing.y * zoom + (a.y + b.y) / 2 - gesture.midY
+    }, frame.w, frame.h, imgW, imgH));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (resizeRef.current === e.pointerId) resizeRef.current = null;
+    startGesture();
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const zoom = Math.exp(-e.deltaY * 0.0015);
+    setFraming(prev => clampFraming({ scale: prev.scale * zoom, x: prev.x * zoom, y: prev.y * zoom }, frame.w, frame.h, imgW, imgH));
+  };
+
+  const startResize = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    areaRef.current?.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, toAreaPoint(e));
+    resizeRef.current = e.pointerId;
+  };
+
+  // Renders the framed part of the turned picture, downscaled to MAX_OUTPUT_SIZE
+  const confirm = () => {
+    if (!img) return;
+    const cropW = frame.w / framing.scale;
+    const cropH = frame.h / framing.scale;
+    const k = Math.min(1, MAX_OUTPUT_SIZE / Math.max(cropW, cropH));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(cropW * k);
+    canvas.height = Math.round(cropH * k);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.scale(k, k);
+    ctx.translate(cropW / 2 + framing.x / framing.scale, cropH / 2 + framing.y / framing.scale);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+    onConfirm(canvas.toDataURL('image/jpeg', 0.92));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col safe-area-inset">
+      <div className="flex items-center gap-4 p-6 pb-4">
+        <button onClick={onCancel} className="p-3 bg-white/5 rounded-full hover:bg-white/10">
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-2xl font-bold flex-1">Frame your puzzle</h1>
+        <button onClick={confirm} disabled={!img} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 rounded-xl hover:bg-indigo-500 font-bold disabled:opacity-50">
+          <Check className="w-5 h-5" /> Use
+        </button>
+      </div>
+
+      <div
+        ref={areaRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={handleWheel}
+        className="relative flex-1 overflow-hidden touch-none cursor-move select-none"
+      >
+        {img && (
+          <img
+            src={image}
+            alt="Picture to crop"
+            draggable={false}
+            className="absolute left-1/2 top-1/2 max-w-none pointer-events-none"
+            style={{
+              width: img.naturalWidth,
+              height: img.naturalHeight,
+              transform: `translate(-50%, -50%) translate(${framing.x}px, ${framing.y}px) rotate(${rotation}deg) scale(${framing.scale})`
+            }}
+          />
+        )}
+        {/* The frame dims everything outside it with an oversized shadow */}
+        <div
+          className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 border-2 border-white/80 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.65)]"
+          style={{ width: frame.w, height: frame.h }}
+        >
+          <div className="absolute inset-0 grid grid-cols-3 grid-rows-3">
+            {Array.from({ length: 9 }).map((_, i) => <div key={i} className="border border-white/10" />)}
+          </div>
+          {preset === 'free' && [0, 1, 2, 3].map(corner => (
+            <div
+              key={corner}
+              onPointerDown={startResize}
+              className={`absolute w-6 h-6 bg-white rounded-full pointer-events-auto cursor-nwse-resize ${corner < 2 ? '-top-3' : '-bottom-3'} ${corner % 2 ? '-right-3' : '-left-3'}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-2 p-6 pt-4">
+        {PRESETS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => setPreset(p.id)}
+            className={`px-4 py-2 rounded-xl text-sm font-bold transition-colors ${preset === p.id ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+          >
+            {p.label}
+          </button>
+        ))}
+        <div className="w-[1px] h-6 bg-white/10 mx-2" />
+        <button onClick={() => setRotation((rotation + 90) % 360)} className="p-2 bg-white/5 rounded-xl text-slate-400 hover:bg-white/10 hover:text-white" title="Rotate">
+          <RotateCw className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CropEditor;
@@ -0,0 +1,121 @@
+
+import React from 'react';
+import { Footprints, Hourglass, Leaf, Trophy } from 'lucide-react';
+import { GameState } from '../types';
+import { formatTime } from '../utils/time';
+
+interface GameResultProps {
+  game: GameState; // solved or failed
+  newRecord: { time: boolean; moves: boolean };
+  animate: boolean;
+  onDone: () => void;
+  onRetry: () => void; // a fresh deal in the same mode
+  onKeepPlaying: () => void; // after a failure: carry on untimed, without a record
+}
+
+const Stat: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="bg-white/5 border border-white/5 p-4 rounded-3xl">
+    <div className="text-[10px] uppercase font-black text-slate-500">{label}</div>
+    <div className="text-2xl font-mono font-bold">{value}</div>
+  </div>
+);
+
+// Success and failure screens over a finished game, worded for its mode
+const GameResult: React.FC<GameResultProps> = ({ game, newRecord, animate, onDone, onRetry, onKeepPlaying }) => {
+  const { mode, limit } = game;
+
+  if (game.isFailed) {
+    const placed = game.savedPieces?.filter(p => p.isLocked).length ?? 0;
+    const total = game.difficulty.rows * game.difficulty.cols;
+    const outOfTime = mode === 'timeAttack';
+    const Icon = outOfTime ? Hourglass : Footprints;
+    return (
+      <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/85 backdrop-blur-md animate-in fade-in duration-500">
+        <div className="w-full max-w-sm bg-[#0a0a0c] border border-white/10 rounded-[3rem] p-10 text-center space-y-8 shadow-2xl">
+          <div className="inline-flex items-center justify-center w-28 h-28 bg-red-500/10 rounded-full border border-red-500/20">
+            <Icon className="w-14 h-14 text-red-400" />
+          </div>
+          <div className="space-y-2">
+            <h2 className="text-4xl font-black text-white italic tracking-tighter uppercase">{outOfTime ? "Time's up!" : 'Out of moves!'}</h2>
+            <p className="text-slate-500 text-sm">{placed} of {total} pieces placed.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Stat label="Time" value={formatTime(game.currentTime)} />
+            <Stat label="Moves" value={limit !== null && !outOfTime ? `${game.moves}/${limit}` : game.moves} />
+          </div>
+          <div className="space-y-3">
+            <button
+              onClick={onRetry}
+              className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black text-lg shadow-xl shadow-indigo-600/30 transition-all active:scale-95 uppercase tracking-widest"
+            >
+              Try again
+            </button>
+            <button onClick={onKeepPlaying} className="w-full py-3 bg-white/5 hover:bg-white/10 rounded-2xl font-bold text-sm">
+              Keep going without a limit
+            </button>
+            <button onClick={onDone} className="w-full py-2 text-slate-500 hover:text-white transition-colors text-sm">Menu</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (mode === 'zen') {
+    return (
+      <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/70 backdrop-blur-sm animate-in fade-in duration-1000">
+        <div className="w-full max-w-sm bg-[#0a0a0c] border border-white/10 rounded-[3rem] p-10 text-center space-y-8 shadow-2xl">
+          <div className="inline-flex items-center justify-center w-28 h-28 bg-teal-500/10 rounded-full border border-teal-500/20">
+            <Leaf className="w-14 h-14 text-teal-400" />
+          </div>
+          <div className="space-y-2">
+            <h2 className="text-3xl font-bold text-white tracking-tight">Complete</h2>
+            <p className="text-slate-500 text-sm">{game.title || 'Your picture'} is whole again.</p>
+          </div>
+          <button onClick={onDone} className="w-full py-5 bg-teal-600 hover:bg-teal-500 text-white rounded-2xl font-bold text-lg transition-all active:scale-95">
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const heading = mode === 'timeAttack' ? 'BEAT THE CLOCK!' : mode === 'moveLimit' ? 'UNDER PAR!' : 'LEGENDARY!';
+  const detail = mode === 'timeAttack' && limit !== null
+    ? `${formatTime(Math.max(0, limit - game.currentTime))} to spare.`
+    : mode === 'moveLimit' && limit !== null
+      ? `${game.moves} of ${limit} moves used.`
+      : 'Challenge completed with precision.';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/85 backdrop-blur-md animate-in fade-in duration-500">
+      <div className="w-full max-w-sm bg-[#0a0a0c] border border-white/10 rounded-[3rem] p-10 text-center space-y-8 shadow-2xl">
+        <div className="inline-flex items-center justify-center w-28 h-28 bg-emerald-500/10 rounded-full border border-emerald-500/20">
+          <Trophy className={`w-14 h-14 text-emerald-500 ${animate ? 'animate-bounce' : ''}`} />
+        </div>
+        <div className="space-y-2">
+          <h2 className="text-4xl font-black text-white italic tracking-tighter uppercase">{heading}</h2>
+          <p className="text-slate-500 text-sm">{detail}</p>
+        </div>
+        {(newRecord.time || newRecord.moves) && (
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-amber-500/10 border border-amber-500/30 rounded-full text-amber-300 text-xs font-black uppercase tracking-widest">
+            <Trophy className="w-4 h-4" />
+            New record! {[newRecord.time && 'Best time', newRecord.moves && 'Fewest moves'].filter(Boolean).join(' · ')}
+          </div>
+        )}
+        <div className="grid grid-cols-3 gap-3">
+          <Stat label="Time" value={formatTime(game.currentTime)} />
+          <Stat label="Moves" value={game.moves} />
+          {game.puzzleType === 'sliding' ? <Stat label="Peeks" value={game.peeks} /> : <Stat label="Hints" value={game.hints} />}
+        </div>
+        <button
+          onClick={onDone}
+          className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black text-lg shadow-xl shadow-indigo-600/30 transition-all active:scale-95 uppercase tracking-widest"
+        >
+          Perfect!
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GameResult;
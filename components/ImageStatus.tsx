@@ -0,0 +1,34 @@
+
+import React from 'react';
+import { TriangleAlert, LoaderCircle, RotateCcw, X } from 'lucide-react';
+
+interface ImageStatusProps {
+  label: string;
+  error: string | null;
+  onRetry: () => void;
+  onDismiss: () => void; // cancels while loading
+}
+
+// Progress and failures of a picture being fetched, shown over the menus
+const ImageStatus: React.FC<ImageStatusProps> = ({ label, error, onRetry, onDismiss }) => (
+  <div
+    role={error ? 'alert' : 'status'}
+    className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[100] w-[calc(100%-3rem)] max-w-md flex items-center gap-4 p-4 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl"
+  >
+    {error ? <TriangleAlert className="w-6 h-6 shrink-0 text-amber-400" /> : <LoaderCircle className="w-6 h-6 shrink-0 text-indigo-400 animate-spin" />}
+    <div className="flex-1 min-w-0">
+      <div className="font-bold text-sm">{label}</div>
+      <div className="text-xs text-slate-400">{error ?? 'Loading picture...'}</div>
+    </div>
+    {error && (
+      <button onClick={onRetry} className="flex items-center gap-1 px-3 py-2 bg-indigo-600 rounded-xl hover:bg-indigo-500 text-xs font-bold">
+        <RotateCcw className="w-4 h-4" /> Retry
+      </button>
+    )}
+    <button onClick={onDismiss} className="p-2 text-slate-400 hover:text-white" title={error ? 'Dismiss' : 'Cancel'}>
+      <X className="w-5 h-5" />
+    </button>
+  </div>
+);
+
+export default ImageStatus;
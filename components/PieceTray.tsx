@@ -0,0 +1,152 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Palette } from 'lucide-react';
+import { Piece } from '../types';
+import { PieceColour } from '../utils/colour';
+
+type TrayFilter = 'all' | 'edges' | 'corners';
+
+interface PieceTrayProps {
+  pieces: Piece[];
+  thumbnails: string[]; // indexed by piece id
+  colours: PieceColour[] | null; // indexed by piece id; null when the image can't be sampled
+  hintPieceId: number | null;
+  selectedId: number | null; // keyboard selection
+  // Called once a press on a thumbnail turns into a drag out of the tray; the board takes over the pointer
+  onGrab: (id: number, pointerId: number, clientX: number, clientY: number) => void;
+}
+
+// A touch must travel this far across the tray (in CSS pixels) before it counts as pulling a piece out
+const PULL_SLOP = 12;
+
+const flatSides = (p: Piece) => [p.edges.top, p.edges.right, p.edges.bottom, p.edges.left].filter(e => e === 0).length;
+
+const PieceTray: React.FC<PieceTrayProps> = ({ pieces, thumbnails, colours, hintPieceId, selectedId, onGrab }) => {
+  const [filter, setFilter] = useState<TrayFilter>('all');
+  const [byColour, setByColour] = useState(false);
+  const [colourBucket, setColourBucket] = useState<number | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const pendingRef = useRef<{ id: number; pointerId: number; x: number; y: number } | null>(null);
+
+  const bucketOf = (p: Piece) => colours?.[p.id]?.bucket ?? 0;
+
+  const visible = pieces
+    .filter(p =>
+      (filter === 'all' || (filter === 'edges' ? flatSides(p) > 0 : flatSides(p) > 1)) &&
+      (!byColour || colourBucket === null || bucketOf(p) === colourBucket)
+    )
+    .sort((a, b) => (byColour ? bucketOf(a) - bucketOf(b) : 0) || a.zIndex - b.zIndex);
+
+  // One swatch per colour group, showing the colour of its first piece
+  const swatches = new Map<number, string>();
+  if (colours) {
+    [...pieces].sort((a, b) => a.zIndex - b.zIndex).forEach(p => {
+      if (!swatches.has(bucketOf(p))) swatches.set(bucketOf(p), colours[p.id].css);
+    });
+  }
+
+  // Bring hinted and keyboard-selected pieces into view
+  useEffect(() => {
+    [hintPieceId, selectedId].forEach(id => {
+      if (id === null) return;
+      listRef.current?.querySelector(`[data-piece="${id}"]`)?.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'smooth' });
+    });
+  }, [hintPieceId, selectedId]);
+
+  // A mouse grabs straight away; touch and pen wait to see which way they move
+  const handlePointerDown = (id: number, e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse') {
+      if (e.button === 0) onGrab(id, e.pointerId, e.clientX, e.clientY);
+      return;
+    }
+    pendingRef.current = { id, pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+  };
+
+  // Sliding along the tray scrolls it (the browser then cancels the pointer); pulling across it takes the piece out
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const pending = pendingRef.current;
+    const list = listRef.current;
+    if (!pending || !list || pending.pointerId !== e.pointerId) return;
+    const dx = Math.abs(e.clientX - pending.x);
+    const dy = Math.abs(e.clientY - pending.y);
+    const vertical = list.clientHeight > list.clientWidth;
+    const across = vertical ? dx : dy;
+    const along = vertical ? dy : dx;
+    if (along > PULL_SLOP) {
+      pendingRef.current = null;
+    } else if (across > PULL_SLOP) {
+      pendingRef.current = null;
+      onGrab(pending.id, e.pointerId, e.clientX, e.clientY);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900/80 backdrop-blur-xl">
+      <div className="flex items-center gap-1 p-2 overflow-x-auto landscape:flex-wrap">
+        {(['all', 'edges', 'corners'] as TrayFilter[]).map(f => (
+          <button
+            key={f}
+            onClick={() => setFilter(f)}
+            className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase transition-colors ${filter === f ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+          >
+            {f}
+          </button>
+        ))}
+        {colours && (
+          <button
+            onClick={() => { setByColour(!byColour); setColourBucket(null); }}
+            title="Group by colour"
+            className={`p-1.5 rounded-lg transition-colors ${byColour ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+          >
+            <Palette className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {byColour && [...swatches].sort(([a], [b]) => a - b).map(([bucket, css]) => (
+          <button
+            key={bucket}
+            onClick={() => setColourBucket(colourBucket === bucket ? null : bucket)}
+            style={{ backgroundColor: css }}
+            title="Only this colour"
+            className={`w-5 h-5 shrink-0 rounded-full border-2 ${colourBucket === bucket ? 'border-white' : 'border-white/10'}`}
+          />
+        ))}
+        <span className="ml-auto pl-2 text-[10px] font-mono text-slate-500 whitespace-nowrap">{pieces.length} left</span>
+      </div>
+
+      <div
+        ref={listRef}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { pendingRef.current = null; }}
+        onPointerCancel={() => { pendingRef.current = null; }}
+        className="flex-1 min-h-0 flex gap-1 px-2 pb-2 overflow-x-auto landscape:grid landscape:grid-cols-2 landscape:content-start landscape:overflow-x-hidden landscape:overflow-y-auto touch-pan-x landscape:touch-pan-y custom-scrollbar"
+      >
+        {visible.length === 0 && (
+          <div className="m-auto landscape:col-span-2 landscape:text-center text-xs text-slate-500">{pieces.length === 0 ? 'Every piece is on the board' : 'No pieces match'}</div>
+        )}
+        {visible.map(p => (
+          <div
+            key={p.id}
+            data-piece={p.id}
+            onPointerDown={(e) => handlePointerDown(p.id, e)}
+            className={`shrink-0 w-20 h-20 flex items-center justify-center rounded-xl cursor-grab hover:bg-white/5 ${p.id === hintPieceId ? 'ring-2 ring-amber-400 bg-amber-400/10' : p.id === selectedId ? 'ring-2 ring-sky-400 bg-sky-400/10' : ''}`}
+          >
+            {thumbnails[p.id] ? (
+              <img
+                src={thumbnails[p.id]}
+                alt=""
+                draggable={false}
+                style={{ transform: `rotate(${p.rotation}deg)` }}
+                className="max-w-full max-h-full pointer-events-none select-none"
+              />
+            ) : (
+              <div className="w-12 h-12 rounded-lg bg-white/10" />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Memoised: the board re-renders for announcements and other state the tray never shows
+export default React.memo(PieceTray);
@@ -1,14 +1,65 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Piece, Difficulty } from '../types';
+import React, { useEffect, useRef, useState, useCallback, useId, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { Piece, Difficulty, SavedPiece, Settings } from '../types';
+import { createPiecePath, createSurface, PieceBitmap, renderPieceBitmap, renderPieceThumbnail, Surface, TAB_DEPTH } from '../utils/jigsaw';
+import {
+  applySnapshots, BoardLayout, computeLayout, createPieces, diffLayouts, dragPiece, dropPiece, isSolved, moveToSlot, PieceChange,
+  PieceSnapshot, pickHintPiece, pickPiece, relayoutPieces, restorePieces, returnToTray, serializePieces, takeFromTray, toSnapshot, turnPiece
+} from '../engine/puzzleEngine';
+import { clampView, IDENTITY_VIEW, toWorld, Viewport, zoomAt } from '../utils/viewport';
+import { PieceColour, samplePieceColours } from '../utils/colour';
+import PieceTray from './PieceTray';
+import { playSound } from '../services/audio';
+import { boardBackground, boardFill, gridAlpha, snapTolerance } from '../utils/settings';
 
 interface PuzzleBoardProps {
   image: string;
   difficulty: Difficulty;
+  seed: number;
+  rotationMode: boolean;
   showPreview: boolean;
-  isMuted: boolean;
+  settings: Settings; // display and snapping preferences, read as they change
+  initialLayout?: SavedPiece[] | null;
   onSolved: () => void;
-  onMove: () => void;
+  // delta is 1 for a new or redone move and -1 for an undone one
+  onMove: (layout: SavedPiece[], delta: number) => void;
+  onHistoryChange?: (canUndo: boolean, canRedo: boolean) => void;
+}
+
+export interface PuzzleBoardHandle {
+  undo: () => void;
+  redo: () => void;
+  // Returns false when there is nothing left to hint at
+  showHint: () => boolean;
+  resetView: () => void;
+}
+
+// One drag: the grabbed piece plus before/after state of every piece it changed
+// (the rest of its cluster, neighbours it snapped to, z-order)
+interface HistoryEntry {
+  pieceId: number;
+  locked: boolean;
+  changes: PieceChange[];
+}
+
+// A piece held by one pointer; every finger or mouse drags independently
+interface PointerDrag {
+  pieceId: number;
+  offsetX: number; // grab point relative to the piece, in world units
+  offsetY: number;
+  startX: number; // screen pixels where the press started, to tell taps from drags
+  startY: number;
+  clientX: number; // latest client position, to tell whether the drop landed on the tray
+  clientY: number;
+  moved: boolean;
+  fromTray: boolean;
+  before: SavedPiece[]; // layout when the piece was picked up, for undo
+}
+
+interface DropResult {
+  locked: boolean;
+  joined: number; // neighbouring clusters snapped to
+  placed: number; // locked pieces after the drop
 }
 
 interface Particle {
@@ -28,133 +79,129 @@ interface VisualEffect {
   particles: Particle[];
 }
 
-const MELODY_FREQS = [261.63, 329.63, 392.00, 440.00, 523.25]; // C4, E4, G4, A4, C5 (Pentatonic)
+const HINT_DURATION = 4000;
+// Room around a loose piece's sprite for its baked shadow (blur 10, offset 4), in CSS pixels
+const SHADOW_MARGIN = 16;
+// Room around the locked layer for the outer grid lines
+const LAYER_MARGIN = 2;
+
+// A press that travels less than this (in screen pixels) is a tap, which turns the piece
+const TAP_SLOP = 8;
 
-const PuzzleBoard: React.FC<PuzzleBoardProps> = ({ image, difficulty, showPreview, isMuted, onSolved, onMove }) => {
+// Pseudo pointer id for a piece carried with the keyboard; real pointer ids are never negative
+const KEYBOARD_POINTER = -1;
+
+const ARROW_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1]
+};
+
+// Order keyboard selection cycles in: loose pieces on the table in reading order, then the tray
+const keyboardOrder = (pieces: Piece[]) =>
+  pieces
+    .filter(p => !p.isLocked)
+    .sort((a, b) => Number(a.inTray) - Number(b.inTray) ||
+      (a.inTray ? a.zIndex - b.zIndex : a.currentY - b.currentY || a.currentX - b.currentX));
+
+// What a screen reader says about a piece; its row and column are where it belongs
+const describePiece = (p: Piece, pieces: Piece[], rows: number, cols: number) => {
+  const borderSides = [p.row === 0, p.row === rows - 1, p.col === 0, p.col === cols - 1].filter(Boolean).length;
+  const joined = pieces.filter(q => q.groupId === p.groupId).length - 1;
+  return [
+    `${borderSides > 1 ? 'Corner piece' : borderSides ? 'Edge piece' : 'Piece'} for row ${p.row + 1}, column ${p.col + 1}`,
+    p.inTray ? 'in the tray' : 'on the table',
+    p.rotation ? `turned ${p.rotation} degrees` : '',
+    joined ? `joined to ${joined} more` : ''
+  ].filter(Boolean).join(', ');
+};
+
+// Rotates the context around the centre of the piece body
+const applyRotation = (ctx: CanvasRenderingContext2D, p: Piece, pw: number, ph: number) => {
+  if (!p.rotation) return;
+  ctx.translate(p.currentX + pw / 2, p.currentY + ph / 2);
+  ctx.rotate((p.rotation * Math.PI) / 180);
+  ctx.translate(-(p.currentX + pw / 2), -(p.currentY + ph / 2));
+};
+
+// Maps a world point into the piece's unrotated frame, for hit-testing turned pieces
+const unrotatePoint = (x: number, y: number, p: Piece, pw: number, ph: number) => {
+  if (!p.rotation) return { x, y };
+  const cx = p.currentX + pw / 2;
+  const cy = p.currentY + ph / 2;
+  const angle = (-p.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: cx + (x - cx) * cos - (y - cy) * sin,
+    y: cy + (x - cx) * sin + (y - cy) * cos
+  };
+};
+
+// Groups currently held by some pointer
+const heldGroups = (pieces: Piece[], drags: Map<number, PointerDrag>) => {
+  const groups = new Set<number>();
+  drags.forEach(drag => {
+    const piece = pieces.find(p => p.id === drag.pieceId);
+    if (piece) groups.add(piece.groupId);
+  });
+  return groups;
+};
+
+const PuzzleBoard = forwardRef<PuzzleBoardHandle, PuzzleBoardProps>(({ image, difficulty, seed, rotationMode, showPreview, settings, initialLayout, onSolved, onMove, onHistoryChange }, ref) => {
+  const { rows, cols } = difficulty;
+  const { highContrast } = settings;
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [pieces, setPieces] = useState<Piece[]>([]);
+  // The pieces with every update applied, rendered or not. Drag moves only touch this and redraw the canvas
+  // (see movePieces), so drawing, drops and grabs read it rather than `pieces`, which catches up on the drop.
+  const piecesRef = useRef<Piece[]>([]);
+  const updatePieces = useCallback((update: Piece[] | ((prev: Piece[]) => Piece[])) => {
+    const next = typeof update === 'function' ? update(piecesRef.current) : update;
+    piecesRef.current = next;
+    setPieces(next);
+  }, []);
   const [imgObj, setImgObj] = useState<HTMLImageElement | null>(null);
-  const [activePieceIndex, setActivePieceIndex] = useState<number | null>(null);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
-  const [boardSize, setBoardSize] = useState({ w: 0, h: 0 });
   const [pieceSize, setPieceSize] = useState({ w: 0, h: 0 });
-  const [effects, setEffects] = useState<VisualEffect[]>([]);
+  // Effects animate every frame, so they live outside React state
+  const effectsRef = useRef<VisualEffect[]>([]);
+  const [hint, setHint] = useState<{ pieceId: number; startTime: number } | null>(null);
+  // Consumed by the first layout only; the board owns the pieces from then on
+  const initialLayoutRef = useRef(initialLayout);
+  const layoutRef = useRef<BoardLayout | null>(null);
+  const historyRef = useRef<{ entries: HistoryEntry[]; index: number }>({ entries: [], index: 0 });
+  // Pieces held right now, keyed by the pointer holding them
+  const dragsRef = useRef(new Map<number, PointerDrag>());
+  // Pointers pressed on empty canvas (screen pixels), which pan, pinch or twist
+  const gesturesRef = useRef(new Map<number, { x: number; y: number }>());
+  // Camera state is read by the render loop every frame, so it lives outside React state
+  const viewRef = useRef<Viewport>(IDENTITY_VIEW);
+  const panRef = useRef<{ pointerId: number; x: number; y: number; view: Viewport } | null>(null);
+  const pinchRef = useRef<{ ids: [number, number]; dist: number; midX: number; midY: number; view: Viewport } | null>(null);
+  // Finger angle, relative to the held piece's pointer, at which the last twist step was applied
+  const twistRef = useRef<{ pointerId: number; dragPointerId: number; angle: number } | null>(null);
+  const lastPieceIdRef = useRef<number | null>(null);
+  // Drawing happens on demand: at most one frame is queued, running the latest `draw`
+  const frameRef = useRef<number | null>(null);
+  const drawRef = useRef<() => void>(() => {});
+  const spritesRef = useRef<{ key: string; img: HTMLImageElement | null; art: Map<number, PieceBitmap>; loose: Map<number, PieceBitmap> }>({
+    key: '',
+    img: null,
+    art: new Map(),
+    loose: new Map()
+  });
+  const lockedLayerRef = useRef<{ surface: Surface; locked: Set<number> } | null>(null);
+  const trayRef = useRef<HTMLDivElement>(null);
+  // Keyboard play: the selected piece, and the board slot it is over while carried
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const carrySlotRef = useRef<{ row: number; col: number } | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const instructionsId = useId();
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [colours, setColours] = useState<PieceColour[] | null>(null);
   
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const masterGainRef = useRef<GainNode | null>(null);
-  const filterRef = useRef<BiquadFilterNode | null>(null);
-  const melodyTimerRef = useRef<number | null>(null);
-
-  // Initialize Web Audio with a warm, filtered sound to prevent "squeaking"
-  const initAudio = useCallback(() => {
-    if (!audioContextRef.current) {
-      const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new AudioCtx();
-      const masterGain = ctx.createGain();
-      const filter = ctx.createBiquadFilter();
-      
-      filter.type = 'lowpass';
-      filter.frequency.setValueAtTime(800, ctx.currentTime); // Cut off high frequencies to avoid squeaks
-      filter.Q.setValueAtTime(1, ctx.currentTime);
-      
-      masterGain.gain.setValueAtTime(0, ctx.currentTime);
-      
-      filter.connect(masterGain);
-      masterGain.connect(ctx.destination);
-      
-      audioContextRef.current = ctx;
-      masterGainRef.current = masterGain;
-      filterRef.current = filter;
-
-      // Base Ambient Pad (Low Drones)
-      const createDrone = (freq: number) => {
-        const osc = ctx.createOscillator();
-        const g = ctx.createGain();
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(freq, ctx.currentTime);
-        g.gain.setValueAtTime(0.02, ctx.currentTime); // Very quiet
-        osc.connect(g);
-        g.connect(filter);
-        osc.start();
-      };
-      createDrone(130.81); // C3
-      createDrone(164.81); // E3
-    }
-    
-    if (audioContextRef.current.state === 'suspended') {
-      audioContextRef.current.resume();
-    }
-    
-    return audioContextRef.current;
-  }, []);
-
-  const playSnapSound = useCallback(() => {
-    if (isMuted || !audioContextRef.current) return;
-    const ctx = audioContextRef.current;
-    const osc = ctx.createOscillator();
-    const g = ctx.createGain();
-    
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(300, ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(100, ctx.currentTime + 0.1);
-    
-    g.gain.setValueAtTime(0.1, ctx.currentTime);
-    g.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.15);
-    
-    osc.connect(g);
-    g.connect(ctx.destination);
-    osc.start();
-    osc.stop(ctx.currentTime + 0.15);
-  }, [isMuted]);
-
-  const triggerMelodyNote = useCallback(() => {
-    if (isMuted || !audioContextRef.current || !filterRef.current) return;
-    const ctx = audioContextRef.current;
-    const osc = ctx.createOscillator();
-    const g = ctx.createGain();
-    
-    const freq = MELODY_FREQS[Math.floor(Math.random() * MELODY_FREQS.length)];
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(freq, ctx.currentTime);
-    
-    g.gain.setValueAtTime(0, ctx.currentTime);
-    g.gain.linearRampToValueAtTime(0.05, ctx.currentTime + 0.5); // Soft attack
-    g.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 3.0); // Long decay
-    
-    osc.connect(g);
-    g.connect(filterRef.current);
-    osc.start();
-    osc.stop(ctx.currentTime + 3.1);
-  }, [isMuted]);
-
-  // Handle Muting and Ambient Start
-  useEffect(() => {
-    if (isMuted) {
-      masterGainRef.current?.gain.setTargetAtTime(0, 0, 0.2);
-    } else if (masterGainRef.current) {
-      masterGainRef.current.gain.setTargetAtTime(1, 0, 1.0);
-    }
-
-    const startOnFirstInput = () => {
-      initAudio();
-      if (!isMuted) masterGainRef.current?.gain.setTargetAtTime(1, 0, 1.0);
-      
-      if (melodyTimerRef.current) clearInterval(melodyTimerRef.current);
-      melodyTimerRef.current = window.setInterval(() => {
-        if (!isMuted && Math.random() > 0.4) triggerMelodyNote();
-      }, 4000);
-
-      window.removeEventListener('pointerdown', startOnFirstInput);
-    };
-
-    window.addEventListener('pointerdown', startOnFirstInput);
-    return () => {
-      window.removeEventListener('pointerdown', startOnFirstInput);
-      if (melodyTimerRef.current) clearInterval(melodyTimerRef.current);
-    };
-  }, [isMuted, initAudio, triggerMelodyNote]);
-
   useEffect(() => {
     const img = new Image();
     img.crossOrigin = "Anonymous";
@@ -162,270 +209,873 @@ const PuzzleBoard: React.FC<PuzzleBoardProps> = ({ image, difficulty, showPrevie
     img.onload = () => setImgObj(img);
   }, [image]);
 
-  const initGame = useCallback(() => {
-    if (!imgObj || !containerRef.current) return;
+  const requestDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      drawRef.current();
+    });
+  }, []);
+
+  // For updates as fast as the pointer: the canvas shows them without re-rendering the board or the tray
+  const movePieces = useCallback((update: (prev: Piece[]) => Piece[]) => {
+    piecesRef.current = update(piecesRef.current);
+    requestDraw();
+  }, [requestDraw]);
+
+  // Read through a ref so a new board size rescales the game in progress instead of redealing it
+  const fill = boardFill(settings);
+  const fillRef = useRef(fill);
+
+  const measureLayout = useCallback(() => {
+    if (!imgObj || !containerRef.current) return null;
     const container = containerRef.current;
-    const cw = container.clientWidth;
-    const ch = container.clientHeight;
-    const imgAspect = imgObj.width / imgObj.height;
-    const containerAspect = cw / ch;
-
-    let bw, bh;
-    const fillFactor = 0.85;
-    if (containerAspect > imgAspect) {
-      bh = ch * fillFactor;
-      bw = bh * imgAspect;
-    } else {
-      bw = cw * fillFactor;
-      bh = bw / imgAspect;
+    const layout = computeLayout(container.clientWidth, container.clientHeight, imgObj.width / imgObj.height, rows, cols, fillRef.current);
+    layoutRef.current = layout;
+    // Backing store in device pixels so high-DPI screens stay sharp; resizing it also clears it
+    const canvas = canvasRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas) {
+      canvas.width = Math.round(layout.cw * dpr);
+      canvas.height = Math.round(layout.ch * dpr);
     }
+    requestDraw();
+    setPieceSize({ w: layout.pw, h: layout.ph });
+    return layout;
+  }, [imgObj, rows, cols, requestDraw]);
 
-    setBoardSize({ w: bw, h: bh });
-    const pw = bw / difficulty;
-    const ph = bh / difficulty;
-    setPieceSize({ w: pw, h: ph });
-
-    const newPieces: Piece[] = [];
-    const boardX = (cw - bw) / 2;
-    const boardY = (ch - bh) / 2;
-
-    for (let r = 0; r < difficulty; r++) {
-      for (let c = 0; c < difficulty; c++) {
-        newPieces.push({
-          id: r * difficulty + c,
-          row: r,
-          col: c,
-          currentX: Math.random() * (cw - pw),
-          currentY: Math.random() * (ch - ph),
-          targetX: boardX + c * pw,
-          targetY: boardY + r * ph,
-          isLocked: false,
-          zIndex: r * difficulty + c
-        });
-      }
-    }
-    setPieces(newPieces);
-    setEffects([]);
-  }, [imgObj, difficulty]);
+  const initGame = useCallback(() => {
+    const layout = measureLayout();
+    if (!layout) return;
+    const savedLayout = initialLayoutRef.current;
+    initialLayoutRef.current = null;
+    // Shapes and tray order come from the seed so the same seed always deals the same puzzle
+    const dealt = savedLayout && savedLayout.length === rows * cols
+      ? restorePieces(savedLayout, layout)
+      : createPieces({ rows, cols }, seed, rotationMode, layout);
+
+    const art: string[] = [];
+    dealt.forEach(p => { art[p.id] = renderPieceThumbnail(imgObj!, p.row, p.col, rows, cols, p.edges); });
+    setThumbnails(art);
+    setColours(samplePieceColours(imgObj!, rows, cols));
+    updatePieces(dealt);
+    effectsRef.current = [];
+  }, [measureLayout, imgObj, rows, cols, seed, rotationMode]);
+
+  // Rotation or window resize: rescale the existing game instead of reshuffling it
+  const handleResize = useCallback(() => {
+    const prevLayout = layoutRef.current;
+    const layout = measureLayout();
+    if (!layout || !prevLayout) return;
+    updatePieces(prev => relayoutPieces(prev, prevLayout, layout));
+    effectsRef.current = [];
+    viewRef.current = IDENTITY_VIEW;
+  }, [measureLayout]);
 
   useEffect(() => {
     initGame();
-    window.addEventListener('resize', initGame);
-    return () => window.removeEventListener('resize', initGame);
   }, [initGame]);
 
+  useEffect(() => {
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [handleResize]);
+
+  useEffect(() => {
+    if (fillRef.current === fill) return;
+    fillRef.current = fill;
+    handleResize();
+  }, [fill, handleResize]);
+
+  // Rebuilt when the pieces are committed, not on every render of the board
+  const trayPieces = useMemo(() => pieces.filter(p => p.inTray), [pieces]);
+
+  // Sprites and the locked layer are cached for one combination of these; anything else means a rebuild
+  const spriteKey = (resolution: number) =>
+    `${resolution}|${pieceSize.w}x${pieceSize.h}|${rows}x${cols}|${seed}|${highContrast}|${settings.gridLines}|${settings.background}`;
+
+  // Clears the sprite caches when the image, layout, zoom detail or style they were drawn for changes
+  const syncSprites = (resolution: number) => {
+    const sprites = spritesRef.current;
+    const key = spriteKey(resolution);
+    if (sprites.key === key && sprites.img === imgObj) return sprites;
+    [...sprites.art.values(), ...sprites.loose.values()].forEach(bitmap => {
+      if ('close' in bitmap) bitmap.close();
+    });
+    spritesRef.current = { key, img: imgObj, art: new Map(), loose: new Map() };
+    lockedLayerRef.current = null;
+    return spritesRef.current;
+  };
+
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !imgObj) return;
+    const layout = layoutRef.current;
+    if (!canvas || !imgObj || !layout) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    const dpr = window.devicePixelRatio || 1;
+    const view = viewRef.current;
+    // Sprites get sharper as the camera zooms in, but never beyond what the image itself resolves
+    const zoomDetail = 2 ** Math.max(0, Math.ceil(Math.log2(view.scale)));
+    const resolution = Math.max(dpr, Math.min(dpr * zoomDetail, imgObj.width / layout.bw));
+    const sprites = syncSprites(resolution);
+    const { boardX, boardY, pw, ph } = layout;
+    const bleed = Math.min(pw, ph) * TAB_DEPTH;
+    // `pieces` in the deps below only schedules a frame; mid-drag positions are in the ref alone
+    const pieces = piecesRef.current;
+    // Pieces lying loose on the canvas, bottom to top
+    const loosePieces = pieces.filter(p => !p.isLocked && !p.inTray).sort((a, b) => a.zIndex - b.zIndex);
+
+    const artFor = (p: Piece) => {
+      let bitmap = sprites.art.get(p.id);
+      if (!bitmap) {
+        bitmap = renderPieceBitmap(imgObj, p.row, p.col, rows, cols, p.edges, pw, ph, bleed, resolution);
+        sprites.art.set(p.id, bitmap);
+      }
+      return bitmap;
+    };
+    // A resting loose piece with its shadow and outline baked in
+    const looseFor = (p: Piece) => {
+      let bitmap = sprites.loose.get(p.id);
+      if (!bitmap) {
+        bitmap = renderPieceBitmap(imgObj, p.row, p.col, rows, cols, p.edges, pw, ph, bleed + SHADOW_MARGIN, resolution, {
+          shadow: { color: 'rgba(0,0,0,0.5)', blur: 10, offsetY: 4 },
+          strokes: highContrast
+            ? [{ color: '#000', width: 4 }, { color: '#fff', width: 2 }]
+            : [{ color: 'rgba(255,255,255,0.1)', width: 1 }]
+        });
+        sprites.loose.set(p.id, bitmap);
+      }
+      return bitmap;
+    };
+
+    // Grid and locked pieces live on a board-sized layer that only gains pieces as they lock;
+    // anything unlocking (undo) redraws it from scratch
+    const lockedIds = new Set(pieces.filter(p => p.isLocked).map(p => p.id));
+    let layer = lockedLayerRef.current;
+    if (!layer || [...layer.locked].some(id => !lockedIds.has(id))) {
+      const surface = createSurface(
+        Math.ceil((layout.bw + LAYER_MARGIN * 2) * resolution),
+        Math.ceil((layout.bh + LAYER_MARGIN * 2) * resolution)
+      );
+      const layerCtx = surface.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+      layerCtx.scale(resolution, resolution);
+      layerCtx.translate(LAYER_MARGIN, LAYER_MARGIN);
+      // Background Grid - as strong as the player likes, unless target slots need to stand out
+      const alpha = gridAlpha(settings);
+      const ink = boardBackground(settings).light ? '15, 23, 42' : '255, 255, 255';
+      if (highContrast || alpha > 0) {
+        layerCtx.strokeStyle = highContrast ? 'rgba(250, 204, 21, 0.6)' : `rgba(${ink}, ${alpha})`;
+        layerCtx.lineWidth = highContrast ? 1.5 : 1;
+        for (let i = 0; i <= cols; i++) {
+          layerCtx.beginPath();
+          layerCtx.moveTo(i * pw, 0);
+          layerCtx.lineTo(i * pw, layout.bh);
+          layerCtx.stroke();
+        }
+        for (let i = 0; i <= rows; i++) {
+          layerCtx.beginPath();
+          layerCtx.moveTo(0, i * ph);
+          layerCtx.lineTo(layout.bw, i * ph);
+          layerCtx.stroke();
+        }
+      }
+      layer = { surface, locked: new Set() };
+      lockedLayerRef.current = layer;
+    }
+    const layerCtx = layer.surface.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+    pieces.forEach(p => {
+      if (!p.isLocked || layer!.locked.has(p.id)) return;
+      layerCtx.drawImage(artFor(p), p.targetX - boardX - bleed, p.targetY - boardY - bleed, pw + bleed * 2, ph + bleed * 2);
+      layer!.locked.add(p.id);
+    });
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    const boardX = (canvas.width - boardSize.w) / 2;
-    const boardY = (canvas.height - boardSize.h) / 2;
-    
+    // Everything below is drawn in world coordinates (CSS pixels) under the camera transform
+    ctx.setTransform(view.scale * dpr, 0, 0, view.scale * dpr, view.x * dpr, view.y * dpr);
+
     if (showPreview) {
       ctx.save();
-      ctx.globalAlpha = 0.1;
-      ctx.drawImage(imgObj, boardX, boardY, boardSize.w, boardSize.h);
+      ctx.globalAlpha = settings.previewOpacity;
+      ctx.drawImage(imgObj, boardX, boardY, layout.bw, layout.bh);
       ctx.restore();
     }
 
-    // Background Grid - very subtle
-    ctx.strokeStyle = 'rgba(255,255,255,0.02)';
-    ctx.lineWidth = 1;
-    for(let i=0; i<=difficulty; i++) {
-      ctx.beginPath();
-      ctx.moveTo(boardX + i * pieceSize.w, boardY);
-      ctx.lineTo(boardX + i * pieceSize.w, boardY + boardSize.h);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.moveTo(boardX, boardY + i * pieceSize.h);
-      ctx.lineTo(boardX + boardSize.w, boardY + i * pieceSize.h);
-      ctx.stroke();
-    }
+    ctx.drawImage(layer.surface, boardX - LAYER_MARGIN, boardY - LAYER_MARGIN, layout.bw + LAYER_MARGIN * 2, layout.bh + LAYER_MARGIN * 2);
 
-    const sortedPieces = [...pieces].sort((a, b) => a.zIndex - b.zIndex);
-    sortedPieces.forEach(p => {
+    const held = heldGroups(pieces, dragsRef.current);
+    loosePieces.forEach(p => {
       ctx.save();
-      const isDragging = activePieceIndex !== null && pieces[activePieceIndex].id === p.id;
-
-      if (!p.isLocked) {
-        ctx.shadowColor = 'rgba(0,0,0,0.5)';
-        ctx.shadowBlur = isDragging ? 30 : 10;
-        ctx.shadowOffsetY = isDragging ? 8 : 4;
+      applyRotation(ctx, p, pw, ph);
+      if (!held.has(p.groupId)) {
+        const pad = bleed + SHADOW_MARGIN;
+        ctx.drawImage(looseFor(p), p.currentX - pad, p.currentY - pad, pw + pad * 2, ph + pad * 2);
+        ctx.restore();
+        return;
       }
 
-      const sx = (p.col * imgObj.width) / difficulty;
-      const sy = (p.row * imgObj.height) / difficulty;
-      const sw = imgObj.width / difficulty;
-      const sh = imgObj.height / difficulty;
-
-      ctx.beginPath();
-      ctx.rect(p.currentX, p.currentY, pieceSize.w, pieceSize.h);
-      ctx.clip();
-      
-      if (isDragging) {
-         ctx.translate(p.currentX + pieceSize.w/2, p.currentY + pieceSize.h/2);
-         ctx.scale(1.08, 1.08);
-         ctx.translate(-(p.currentX + pieceSize.w/2), -(p.currentY + pieceSize.h/2));
+      // Held pieces: lift a single piece; a cluster stays flat so its seams keep lining up
+      if (!pieces.some(q => q.groupId === p.groupId && q.id !== p.id)) {
+        ctx.translate(p.currentX + pw / 2, p.currentY + ph / 2);
+        ctx.scale(1.08, 1.08);
+        ctx.translate(-(p.currentX + pw / 2), -(p.currentY + ph / 2));
       }
+      ctx.save();
+      ctx.shadowColor = 'rgba(0,0,0,0.5)';
+      ctx.shadowBlur = 30 * dpr;
+      ctx.shadowOffsetY = 8 * dpr;
+      ctx.drawImage(artFor(p), p.currentX - bleed, p.currentY - bleed, pw + bleed * 2, ph + bleed * 2);
+      ctx.restore();
+      const path = createPiecePath(p.currentX, p.currentY, pw, ph, p.edges);
+      if (highContrast) {
+        ctx.strokeStyle = '#000';
+        ctx.lineWidth = 6;
+        ctx.stroke(path);
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = 3;
+      } else {
+        ctx.strokeStyle = 'rgba(129, 140, 248, 0.8)';
+        ctx.lineWidth = 3;
+      }
+      ctx.stroke(path);
+      ctx.restore();
+    });
 
-      ctx.drawImage(imgObj, sx, sy, sw, sh, p.currentX, p.currentY, pieceSize.w, pieceSize.h);
+    // Keyboard selection
+    const selected = pieces.find(p => p.id === selectedId && !p.isLocked && !p.inTray);
+    if (selected) {
+      ctx.save();
+      applyRotation(ctx, selected, pw, ph);
+      ctx.setLineDash([8, 4]);
+      ctx.strokeStyle = highContrast ? '#facc15' : 'rgba(56, 189, 248, 0.95)';
+      ctx.lineWidth = 4;
+      ctx.stroke(createPiecePath(selected.currentX, selected.currentY, pw, ph, selected.edges));
       ctx.restore();
+    }
 
-      // Border only for unlocked pieces
-      if (!p.isLocked) {
-        ctx.strokeStyle = isDragging ? 'rgba(129, 140, 248, 0.8)' : 'rgba(255,255,255,0.1)';
-        ctx.lineWidth = isDragging ? 3 : 1;
-        ctx.strokeRect(p.currentX, p.currentY, pieceSize.w, pieceSize.h);
+    // Hint: pulse the suggested piece and outline the slot it belongs in
+    const hintPiece = hint ? pieces.find(p => p.id === hint.pieceId && !p.isLocked) : undefined;
+    if (hint && hintPiece) {
+      // Held steady when effects are off
+      const pulse = settings.effects ? (Math.sin((Date.now() - hint.startTime) / 150) + 1) / 2 : 1;
+      ctx.save();
+      ctx.strokeStyle = `rgba(251, 191, 36, ${0.5 + pulse * 0.5})`;
+      ctx.shadowColor = 'rgba(251, 191, 36, 0.8)';
+      ctx.shadowBlur = (10 + pulse * 20) * dpr;
+      ctx.lineWidth = 2 + pulse * 2;
+      // A piece still in the tray is highlighted there instead
+      if (!hintPiece.inTray) {
+        ctx.save();
+        applyRotation(ctx, hintPiece, pw, ph);
+        ctx.stroke(createPiecePath(hintPiece.currentX, hintPiece.currentY, pw, ph, hintPiece.edges));
+        ctx.restore();
       }
-    });
+      ctx.setLineDash([6, 6]);
+      ctx.lineWidth = 2;
+      ctx.stroke(createPiecePath(hintPiece.targetX, hintPiece.targetY, pw, ph, hintPiece.edges));
+      ctx.restore();
+    }
 
     // MAGICAL EFFECTS
     const now = Date.now();
-    setEffects(prev => {
-      const active = prev.filter(eff => now - eff.startTime < 1200);
-      active.forEach(eff => {
-        const elapsed = now - eff.startTime;
-        const progress = elapsed / 1200;
-        
-        // Circular Ripple
-        ctx.save();
+    effectsRef.current = effectsRef.current.filter(eff => now - eff.startTime < 1200);
+    effectsRef.current.forEach(eff => {
+      const elapsed = now - eff.startTime;
+      const progress = elapsed / 1200;
+
+      // Circular Ripple
+      ctx.save();
+      ctx.beginPath();
+      const maxRadius = pw * 2;
+      const currentRadius = progress * maxRadius;
+      ctx.arc(eff.x + pw / 2, eff.y + ph / 2, currentRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgba(165, 180, 252, ${1 - progress})`;
+      ctx.lineWidth = 2 * (1 - progress);
+      ctx.stroke();
+
+      // Inner Glow Circle
+      if (progress < 0.5) {
         ctx.beginPath();
-        const maxRadius = pieceSize.w * 2;
-        const currentRadius = progress * maxRadius;
-        ctx.arc(eff.x + pieceSize.w / 2, eff.y + pieceSize.h / 2, currentRadius, 0, Math.PI * 2);
-        ctx.strokeStyle = `rgba(165, 180, 252, ${1 - progress})`;
-        ctx.lineWidth = 2 * (1 - progress);
-        ctx.stroke();
-        
-        // Inner Glow Circle
-        if (progress < 0.5) {
+        ctx.arc(eff.x + pw / 2, eff.y + ph / 2, pw / 2, 0, Math.PI * 2);
+        ctx.fillStyle = `rgba(255, 255, 255, ${(1 - progress * 2) * 0.3})`;
+        ctx.fill();
+      }
+      ctx.restore();
+
+      // Shimmer Particles
+      eff.particles.forEach(p => {
+        p.x += p.vx;
+        p.y += p.vy;
+        p.life -= 0.015;
+        if (p.life > 0) {
+          ctx.fillStyle = p.color.replace('ALPHA', p.life.toString());
           ctx.beginPath();
-          ctx.arc(eff.x + pieceSize.w / 2, eff.y + pieceSize.h / 2, pieceSize.w / 2, 0, Math.PI * 2);
-          ctx.fillStyle = `rgba(255, 255, 255, ${(1 - progress * 2) * 0.3})`;
+          ctx.arc(p.x, p.y, p.size * p.life, 0, Math.PI * 2);
           ctx.fill();
         }
-        ctx.restore();
-
-        // Shimmer Particles
-        eff.particles.forEach(p => {
-          p.x += p.vx;
-          p.y += p.vy;
-          p.life -= 0.015;
-          if (p.life > 0) {
-            ctx.fillStyle = p.color.replace('ALPHA', p.life.toString());
-            ctx.beginPath();
-            ctx.arc(p.x, p.y, p.size * p.life, 0, Math.PI * 2);
-            ctx.fill();
-          }
-        });
       });
-      return active;
     });
 
-  }, [pieces, imgObj, boardSize, pieceSize, difficulty, activePieceIndex, showPreview, effects]);
+    // Only animations keep the loop going; otherwise the next frame waits for a change
+    if (effectsRef.current.length > 0 || (hintPiece && settings.effects)) requestDraw();
+  }, [pieces, imgObj, pieceSize, rows, cols, seed, showPreview, settings, hint, selectedId, requestDraw]);
 
   useEffect(() => {
-    let frameId: number;
-    const loop = () => {
-      draw();
-      frameId = requestAnimationFrame(loop);
-    };
-    frameId = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(frameId);
-  }, [draw]);
+    if (!hint) return;
+    const timeout = window.setTimeout(() => setHint(null), HINT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [hint]);
+
+  // Any change the frame depends on recreates `draw`; render it once on the next frame
+  useEffect(() => {
+    drawRef.current = draw;
+    requestDraw();
+  }, [draw, requestDraw]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  // Client coordinates to canvas CSS pixels (the screen space of the camera)
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // Topmost loose piece on the canvas under the world point, if any
+  const pieceAt = (x: number, y: number): Piece | null => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return null;
+    // Hit-test against the real outline so tabs are grabbable and blanks are not.
+    // isPointInPath applies the context transform, so test untransformed in world space.
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    const hit = [...piecesRef.current].sort((a, b) => b.zIndex - a.zIndex).find(p => {
+      if (p.isLocked || p.inTray) return false;
+      const local = unrotatePoint(x, y, p, pieceSize.w, pieceSize.h);
+      return ctx.isPointInPath(createPiecePath(p.currentX, p.currentY, pieceSize.w, pieceSize.h, p.edges), local.x, local.y);
+    });
+    ctx.restore();
+    return hit ?? null;
+  };
 
-  const handleStart = (clientX: number, clientY: number) => {
+  // Registers a drag for the pointer and lifts the piece's cluster above everything else
+  const startDrag = (pointerId: number, piece: Piece, drag: Omit<PointerDrag, 'pieceId' | 'before' | 'moved'>) => {
+    const layout = layoutRef.current;
+    if (!layout) return;
+    const current = piecesRef.current;
+    dragsRef.current.set(pointerId, { ...drag, pieceId: piece.id, before: serializePieces(current, layout), moved: false });
+    lastPieceIdRef.current = piece.id;
+    if (hint && current.some(p => p.id === hint.pieceId && p.groupId === piece.groupId)) setHint(null);
+    updatePieces(prev => pickPiece(prev, piece.id));
+    playSound('pickup');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const x = (clientX - rect.left) * (canvas.width / rect.width);
-    const y = (clientY - rect.top) * (canvas.height / rect.height);
-
-    const sorted = [...pieces].sort((a, b) => b.zIndex - a.zIndex);
-    const pIdx = sorted.findIndex(p => !p.isLocked && x >= p.currentX && x <= p.currentX + pieceSize.w && y >= p.currentY && y <= p.currentY + pieceSize.h);
-
-    if (pIdx !== -1) {
-      const realIdx = pieces.findIndex(p => p.id === sorted[pIdx].id);
-      setActivePieceIndex(realIdx);
-      setDragOffset({ x: x - pieces[realIdx].currentX, y: y - pieces[realIdx].currentY });
-      const maxZ = Math.max(...pieces.map(p => p.zIndex));
-      setPieces(prev => {
-        const next = [...prev];
-        next[realIdx].zIndex = maxZ + 1;
-        return next;
+    if (!canvas || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    // Keep receiving this pointer even when it wanders over the tray or off the window
+    canvas.setPointerCapture(e.pointerId);
+    const screen = toCanvasPoint(e.clientX, e.clientY);
+    const { x, y } = toWorld(viewRef.current, screen.x, screen.y);
+
+    const piece = pieceAt(x, y);
+    if (piece) {
+      // A cluster already held by another finger can't be grabbed twice
+      if (heldGroups(piecesRef.current, dragsRef.current).has(piece.groupId)) return;
+      startDrag(e.pointerId, piece, {
+        offsetX: x - piece.currentX,
+        offsetY: y - piece.currentY,
+        startX: screen.x,
+        startY: screen.y,
+        clientX: e.clientX,
+        clientY: e.clientY,
+        fromTray: false
       });
+      return;
+    }
+
+    const gestures = gesturesRef.current;
+    gestures.set(e.pointerId, screen);
+    const drags = [...dragsRef.current];
+    if (drags.length > 0) {
+      // While pieces are held empty space doesn't pan; in rotation mode a finger there
+      // twists the most recently grabbed piece
+      if (rotationMode && !twistRef.current) {
+        const [dragPointerId, drag] = drags[drags.length - 1];
+        twistRef.current = { pointerId: e.pointerId, dragPointerId, angle: Math.atan2(e.clientY - drag.clientY, e.clientX - drag.clientX) };
+        drag.moved = true;
+      }
+      return;
+    }
+
+    if (gestures.size >= 2) {
+      // A second finger on empty space turns the gesture into pinch-zoom
+      panRef.current = null;
+      const [[idA, a], [idB, b]] = [...gestures];
+      pinchRef.current = {
+        ids: [idA, idB],
+        dist: Math.hypot(a.x - b.x, a.y - b.y),
+        midX: (a.x + b.x) / 2,
+        midY: (a.y + b.y) / 2,
+        view: viewRef.current
+      };
+    } else {
+      // Dragging empty space pans the camera
+      panRef.current = { pointerId: e.pointerId, x: screen.x, y: screen.y, view: viewRef.current };
     }
   };
 
-  const handleMove = (clientX: number, clientY: number) => {
-    if (activePieceIndex === null || !canvasRef.current) return;
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    const rect = canvas.getBoundingClientRect();
-    const x = (clientX - rect.left) * (canvas.width / rect.width);
-    const y = (clientY - rect.top) * (canvas.height / rect.height);
-
-    setPieces(prev => {
-      const next = [...prev];
-      next[activePieceIndex] = {
-        ...next[activePieceIndex],
-        currentX: Math.max(0, Math.min(canvas.width - pieceSize.w, x - dragOffset.x)),
-        currentY: Math.max(0, Math.min(canvas.height - pieceSize.h, y - dragOffset.y))
-      };
-      return next;
+    if (!canvas) return;
+    const screen = toCanvasPoint(e.clientX, e.clientY);
+
+    const drag = dragsRef.current.get(e.pointerId);
+    if (drag) {
+      drag.clientX = e.clientX;
+      drag.clientY = e.clientY;
+      if (Math.hypot(screen.x - drag.startX, screen.y - drag.startY) > TAP_SLOP) drag.moved = true;
+      const { x, y } = toWorld(viewRef.current, screen.x, screen.y);
+      const layout = layoutRef.current;
+      if (layout) movePieces(prev => dragPiece(prev, drag.pieceId, x - drag.offsetX, y - drag.offsetY, layout));
+      return;
+    }
+
+    const gestures = gesturesRef.current;
+    // Ignore a mouse hovering without a button pressed
+    if (!gestures.has(e.pointerId)) return;
+    gestures.set(e.pointerId, screen);
+
+    const twist = twistRef.current;
+    if (twist?.pointerId === e.pointerId) {
+      const held = dragsRef.current.get(twist.dragPointerId);
+      if (!held) return;
+      const angle = Math.atan2(e.clientY - held.clientY, e.clientX - held.clientX);
+      const delta = Math.atan2(Math.sin(angle - twist.angle), Math.cos(angle - twist.angle));
+      // Each quarter turn needs half of it (45 degrees) of finger twist
+      if (Math.abs(delta) >= Math.PI / 4) {
+        const direction = delta > 0 ? 1 : -1;
+        movePieces(prev => {
+          const piece = prev.find(p => p.id === held.pieceId);
+          if (!piece || prev.some(q => q.groupId === piece.groupId && q.id !== piece.id)) return prev;
+          return turnPiece(prev, piece.id, direction);
+        });
+        twist.angle += (direction * Math.PI) / 2;
+      }
+      return;
+    }
+
+    const pinch = pinchRef.current;
+    if (pinch?.ids.includes(e.pointerId)) {
+      const a = gestures.get(pinch.ids[0]);
+      const b = gestures.get(pinch.ids[1]);
+      if (!a || !b) return;
+      const midX = (a.x + b.x) / 2;
+      const midY = (a.y + b.y) / 2;
+      // Zoom around the starting midpoint, then follow the midpoint to pan with two fingers
+      const zoomed = zoomAt(pinch.view, pinch.view.scale * (Math.hypot(a.x - b.x, a.y - b.y) / pinch.dist), pinch.midX, pinch.midY, canvas.clientWidth, canvas.clientHeight);
+      viewRef.current = clampView({ ...zoomed, x: zoomed.x + midX - pinch.midX, y: zoomed.y + midY - pinch.midY }, canvas.clientWidth, canvas.clientHeight);
+      requestDraw();
+      return;
+    }
+
+    const pan = panRef.current;
+    if (pan?.pointerId === e.pointerId) {
+      viewRef.current = clampView({
+        ...pan.view,
+        x: pan.view.x + screen.x - pan.x,
+        y: pan.view.y + screen.y - pan.y
+      }, canvas.clientWidth, canvas.clientHeight);
+      requestDraw();
+    }
+  };
+
+  // Also handles pointercancel: a cancelled drag drops the piece where it is
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragsRef.current.get(e.pointerId);
+    if (drag) {
+      dragsRef.current.delete(e.pointerId);
+      if (twistRef.current?.dragPointerId === e.pointerId) twistRef.current = null;
+      endDrag(drag);
+      return;
+    }
+    gesturesRef.current.delete(e.pointerId);
+    if (twistRef.current?.pointerId === e.pointerId) twistRef.current = null;
+    // Lifting one finger of a pinch ends it without starting a pan
+    if (pinchRef.current?.ids.includes(e.pointerId)) pinchRef.current = null;
+    if (panRef.current?.pointerId === e.pointerId) panRef.current = null;
+  };
+
+  const spawnSnapEffect = (x: number, y: number) => {
+    if (!settings.effects) return;
+    const newParticles: Particle[] = Array.from({ length: 25 }).map(() => ({
+      x: x + pieceSize.w / 2,
+      y: y + pieceSize.h / 2,
+      vx: (Math.random() - 0.5) * 8,
+      vy: (Math.random() - 0.5) * 8,
+      life: 1.0,
+      size: 1.5 + Math.random() * 3,
+      color: `rgba(224, 231, 255, ALPHA)`
+    }));
+
+    effectsRef.current.push({ x, y, startTime: Date.now(), particles: newParticles });
+    requestDraw();
+  };
+
+  const endDrag = (drag: PointerDrag): DropResult | null => {
+    let current = piecesRef.current;
+    const held = current.find(p => p.id === drag.pieceId);
+    if (!held || !layoutRef.current) return null;
+    const single = current.filter(q => q.groupId === held.groupId).length === 1;
+
+    // A single piece let go over the tray goes back into it
+    if (single && isOverTray(drag.clientX, drag.clientY)) {
+      current = returnToTray(current, held.id);
+      // Picked up from the tray and put straight back: nothing happened
+      if (drag.fromTray) {
+        updatePieces(current);
+        return null;
+      }
+    } else if (rotationMode && !drag.moved && single) {
+      // In rotation mode a tap on a loose single piece turns it a quarter clockwise
+      current = turnPiece(current, held.id, 1);
+    }
+    return commitDrop(current, held.id, drag.before);
+  };
+
+  const isOverTray = (clientX: number, clientY: number) => {
+    const rect = trayRef.current?.getBoundingClientRect();
+    return !!rect && clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom;
+  };
+
+  // Pulls a piece out of the tray and hands its pointer to the canvas, centred under the piece
+  const grabFromTray = (id: number, pointerId: number, clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    const layout = layoutRef.current;
+    const piece = piecesRef.current.find(p => p.id === id);
+    if (!canvas || !layout || !piece || dragsRef.current.has(pointerId)) return;
+    try {
+      canvas.setPointerCapture(pointerId);
+    } catch {
+      // The pointer was released before the grab went through
+      return;
+    }
+
+    const screen = toCanvasPoint(clientX, clientY);
+    const { x, y } = toWorld(viewRef.current, screen.x, screen.y);
+    const next = takeFromTray(piecesRef.current, id, x, y, layout);
+    const placed = next.find(p => p.id === id)!;
+
+    startDrag(pointerId, piece, {
+      offsetX: x - placed.currentX,
+      offsetY: y - placed.currentY,
+      startX: screen.x,
+      startY: screen.y,
+      clientX,
+      clientY,
+      fromTray: true
     });
+    // Never a tap: leaving the tray must not also turn the piece
+    dragsRef.current.get(pointerId)!.moved = true;
+    updatePieces(prev => takeFromTray(prev, id, x, y, layout));
   };
 
-  const handleEnd = () => {
-    if (activePieceIndex === null) return;
-    const p = pieces[activePieceIndex];
-    const dist = Math.sqrt(Math.pow(p.currentX - p.targetX, 2) + Math.pow(p.currentY - p.targetY, 2));
-
-    if (dist < pieceSize.w * 0.25) {
-      playSnapSound();
-      
-      const newParticles: Particle[] = Array.from({ length: 25 }).map(() => ({
-        x: p.targetX + pieceSize.w / 2,
-        y: p.targetY + pieceSize.h / 2,
-        vx: (Math.random() - 0.5) * 8,
-        vy: (Math.random() - 0.5) * 8,
-        life: 1.0,
-        size: 1.5 + Math.random() * 3,
-        color: `rgba(224, 231, 255, ALPHA)`
-      }));
-
-      setEffects(prev => [...prev, { x: p.targetX, y: p.targetY, startTime: Date.now(), particles: newParticles }]);
-      
-      setPieces(prev => {
-        const next = [...prev];
-        next[activePieceIndex] = { ...next[activePieceIndex], currentX: p.targetX, currentY: p.targetY, isLocked: true, zIndex: 0 };
-        if (next.every(i => i.isLocked)) setTimeout(onSolved, 800);
-        return next;
-      });
+  // A stable handler for the memoised tray that still runs the latest grabFromTray
+  const grabFromTrayRef = useRef(grabFromTray);
+  grabFromTrayRef.current = grabFromTray;
+  const handleTrayGrab = useCallback(
+    (id: number, pointerId: number, clientX: number, clientY: number) => grabFromTrayRef.current(id, pointerId, clientX, clientY),
+    []
+  );
+
+  // Locks or snaps the group of piece `pieceId` where it lies and records the move against `before`
+  const commitDrop = (current: Piece[], pieceId: number, before: SavedPiece[]): DropResult => {
+    const layout = layoutRef.current!;
+    // Clusters still held by other fingers are neither snapped to nor part of this move
+    const otherGroups = heldGroups(piecesRef.current, dragsRef.current);
+    const { pieces: next, locked, snapped, misplaced } = dropPiece(current, pieceId, layout, otherGroups, snapTolerance(settings));
+    const p = next.find(q => q.id === pieceId)!;
+
+    if (locked) {
+      spawnSnapEffect(p.targetX, p.targetY);
+      if (isSolved(next)) {
+        playSound('complete');
+        setTimeout(onSolved, 800);
+      } else {
+        playSound('snap');
+      }
+    } else if (snapped.length > 0) {
+      playSound('snap');
+      snapped.forEach(n => spawnSnapEffect(n.currentX, n.currentY));
+    } else {
+      playSound(misplaced ? 'wrongDrop' : 'drop');
     }
-    onMove();
-    setActivePieceIndex(null);
+    // Always committed, even unchanged: this is where a drag's moves reach React state
+    updatePieces(next);
+
+    const after = serializePieces(next, layout);
+    const changes = diffLayouts(before, after, new Set(next.filter(q => otherGroups.has(q.groupId)).map(q => q.id)));
+    // Drags still in progress started from a layout without this move; fold it in so
+    // their own history entries don't repeat it
+    const changed = new Set(changes.map(c => c.id));
+    dragsRef.current.forEach(drag => {
+      drag.before = drag.before.map((sp, i) => changed.has(sp.id) ? after[i] : sp);
+    });
+
+    const history = historyRef.current;
+    history.entries = history.entries.slice(0, history.index);
+    history.entries.push({ pieceId, locked, changes });
+    history.index = history.entries.length;
+    onHistoryChange?.(true, false);
+    onMove(after, 1);
+    return { locked, joined: snapped.length, placed: next.filter(q => q.isLocked).length };
   };
 
+  // Keyboard rotation: turns the most recently held piece, or the last touched one as a move of its own
+  const rotateSelected = (direction: 1 | -1) => {
+    const layout = layoutRef.current;
+    if (!layout) return;
+    const pieces = piecesRef.current;
+    const drags = [...dragsRef.current.values()];
+    const drag = drags[drags.length - 1];
+    if (drag) {
+      const held = pieces.find(p => p.id === drag.pieceId);
+      if (!held || pieces.some(q => q.groupId === held.groupId && q.id !== held.id)) return;
+      updatePieces(prev => turnPiece(prev, held.id, direction));
+      drag.moved = true;
+      return;
+    }
+    const target = pieces.find(p => p.id === lastPieceIdRef.current);
+    if (!target || target.isLocked || pieces.some(q => q.groupId === target.groupId && q.id !== target.id)) return;
+    commitDrop(turnPiece(pieces, target.id, direction), target.id, serializePieces(pieces, layout));
+  };
+
+  useEffect(() => {
+    if (!rotationMode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === 'r') rotateSelected(1);
+      else if (e.key === 'R') rotateSelected(-1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const stepHistory = (direction: -1 | 1) => {
+    const history = historyRef.current;
+    const layout = layoutRef.current;
+    if (!layout || dragsRef.current.size > 0) return;
+    const entry = direction === -1 ? history.entries[history.index - 1] : history.entries[history.index];
+    if (!entry) return;
+
+    // Undoing a lock restores the unlocked snapshot, which frees the pieces again
+    const snapshots = new Map<number, PieceSnapshot>(entry.changes.map(c => [c.id, direction === -1 ? c.before : c.after]));
+    const next = applySnapshots(piecesRef.current, snapshots, layout);
+    history.index += direction;
+    updatePieces(next);
+    effectsRef.current = [];
+    onHistoryChange?.(history.index > 0, history.index < history.entries.length);
+    onMove(serializePieces(next, layout), direction);
+    if (direction === 1 && isSolved(next)) setTimeout(onSolved, 800);
+  };
+
+  const showHint = () => {
+    const piece = pickHintPiece(pieces, { rows, cols });
+    if (!piece) return false;
+    setHint({ pieceId: piece.id, startTime: Date.now() });
+    return true;
+  };
+
+  // Moves keyboard selection through the loose pieces; returns false when it runs off either end without wrapping
+  const cycleSelection = (step: 1 | -1, wrap: boolean) => {
+    const order = keyboardOrder(pieces);
+    const index = order.findIndex(p => p.id === selectedId);
+    let next = index === -1 ? (step === 1 ? 0 : order.length - 1) : index + step;
+    if (next < 0 || next >= order.length) {
+      if (!wrap || order.length === 0) {
+        setSelectedId(null);
+        return false;
+      }
+      next = (next + order.length) % order.length;
+    }
+    const piece = order[next];
+    setSelectedId(piece.id);
+    lastPieceIdRef.current = piece.id;
+    setAnnouncement(`${describePiece(piece, pieces, rows, cols)}. ${next + 1} of ${order.length}.`);
+    return true;
+  };
+
+  // Shifts the carried piece's cluster so the piece sits over board slot (row, col)
+  const moveCarried = (row: number, col: number) => {
+    const layout = layoutRef.current;
+    const drag = dragsRef.current.get(KEYBOARD_POINTER);
+    const piece = drag && pieces.find(p => p.id === drag.pieceId);
+    if (!layout || !piece) return;
+
+    // The slot is clamped so the whole cluster stays over the board
+    const { row: slotRow, col: slotCol } = moveToSlot(pieces, piece.id, row, col, { rows, cols }, layout);
+    const slot = { row: slotRow, col: slotCol };
+    carrySlotRef.current = slot;
+    updatePieces(prev => moveToSlot(prev, piece.id, slot.row, slot.col, { rows, cols }, layout).pieces);
+    const home = slot.row === piece.row && slot.col === piece.col;
+    setAnnouncement(`Row ${slot.row + 1}, column ${slot.col + 1}${home ? (piece.rotation ? ', its place, but turned' : ', its place') : ''}.`);
+  };
+
+  const pickUpSelected = () => {
+    const layout = layoutRef.current;
+    const piece = pieces.find(p => p.id === selectedId);
+    if (!layout || !piece || piece.isLocked || heldGroups(pieces, dragsRef.current).has(piece.groupId)) return;
+
+    startDrag(KEYBOARD_POINTER, piece, {
+      offsetX: 0,
+      offsetY: 0,
+      startX: 0,
+      startY: 0,
+      // Never over the tray, so dropping always lands on the table
+      clientX: -Infinity,
+      clientY: -Infinity,
+      fromTray: piece.inTray
+    });
+    dragsRef.current.get(KEYBOARD_POINTER)!.moved = true;
+    // Start over the slot nearest the piece; pieces from the tray start in the middle of the board
+    moveCarried(
+      piece.inTray ? Math.floor(rows / 2) : Math.round((piece.currentY - layout.boardY) / layout.ph),
+      piece.inTray ? Math.floor(cols / 2) : Math.round((piece.currentX - layout.boardX) / layout.pw)
+    );
+  };
+
+  const dropCarried = () => {
+    const drag = dragsRef.current.get(KEYBOARD_POINTER);
+    if (!drag) return;
+    dragsRef.current.delete(KEYBOARD_POINTER);
+    const slot = carrySlotRef.current;
+    carrySlotRef.current = null;
+    const result = endDrag(drag);
+    if (!result) return;
+    if (result.locked) {
+      setAnnouncement(`Placed. ${result.placed} of ${pieces.length} pieces done.`);
+    } else if (result.joined) {
+      setAnnouncement(`Dropped and joined ${result.joined === 1 ? 'a neighbour' : `${result.joined} neighbours`}.`);
+    } else if (slot) {
+      setAnnouncement(`Dropped at row ${slot.row + 1}, column ${slot.col + 1}. Not its place.`);
+    }
+  };
+
+  // Puts the carried cluster back where it was picked up
+  const cancelCarried = () => {
+    const drag = dragsRef.current.get(KEYBOARD_POINTER);
+    const layout = layoutRef.current;
+    const piece = drag && pieces.find(p => p.id === drag.pieceId);
+    if (!drag || !layout || !piece) return;
+    dragsRef.current.delete(KEYBOARD_POINTER);
+    carrySlotRef.current = null;
+    const ids = new Set(pieces.filter(p => p.groupId === piece.groupId).map(p => p.id));
+    const snapshots = new Map<number, PieceSnapshot>(drag.before.filter(sp => ids.has(sp.id)).map(sp => [sp.id, toSnapshot(sp)]));
+    updatePieces(prev => applySnapshots(prev, snapshots, layout));
+    setAnnouncement('Cancelled.');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const step = ARROW_STEPS[e.key];
+
+    if (dragsRef.current.has(KEYBOARD_POINTER)) {
+      const slot = carrySlotRef.current;
+      if (step && slot) moveCarried(slot.row + step[0], slot.col + step[1]);
+      else if (e.key === 'Enter' || e.key === ' ') dropCarried();
+      else if (e.key === 'Escape') cancelCarried();
+      // Tab can't leave while carrying; Escape puts the piece back first
+      else if (e.key !== 'Tab') return;
+      e.preventDefault();
+      return;
+    }
+
+    if (e.key === 'Tab') {
+      // Running off either end lets focus leave the board
+      if (cycleSelection(e.shiftKey ? -1 : 1, false)) e.preventDefault();
+    } else if (step) {
+      e.preventDefault();
+      cycleSelection(step[0] + step[1] > 0 ? 1 : -1, true);
+    } else if ((e.key === 'Enter' || e.key === ' ') && selectedId !== null) {
+      e.preventDefault();
+      pickUpSelected();
+    } else if (e.key === 'Escape') {
+      setSelectedId(null);
+    }
+  };
+
+  const handleBlur = () => {
+    cancelCarried();
+    setSelectedId(null);
+  };
+
+  // Mouse-wheel zoom around the cursor; registered natively because React wheel listeners are passive
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const view = viewRef.current;
+      viewRef.current = zoomAt(view, view.scale * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height);
+      requestDraw();
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [requestDraw]);
+
+  useImperativeHandle(ref, () => ({
+    undo: () => stepHistory(-1),
+    redo: () => stepHistory(1),
+    showHint,
+    resetView: () => {
+      viewRef.current = IDENTITY_VIEW;
+      requestDraw();
+    }
+  }));
+
   return (
-    <div ref={containerRef} className="w-full h-full flex items-center justify-center">
-      <canvas
-        ref={canvasRef}
-        width={containerRef.current?.clientWidth || 0}
-        height={containerRef.current?.clientHeight || 0}
-        onMouseDown={(e) => handleStart(e.clientX, e.clientY)}
-        onMouseMove={(e) => handleMove(e.clientX, e.clientY)}
-        onMouseUp={handleEnd}
-        onMouseLeave={handleEnd}
-        onTouchStart={(e) => handleStart(e.touches[0].clientX, e.touches[0].clientY)}
-        onTouchMove={(e) => handleMove(e.touches[0].clientX, e.touches[0].clientY)}
-        onTouchEnd={handleEnd}
-        className="block cursor-grab active:cursor-grabbing"
-      />
+    <div className="w-full h-full flex flex-col landscape:flex-row">
+      <div ref={containerRef} className="relative flex-1 min-w-0 min-h-0" style={{ background: boardBackground(settings).css }}>
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+          tabIndex={0}
+          role="application"
+          aria-roledescription="jigsaw puzzle"
+          aria-label={`Jigsaw puzzle, ${pieces.filter(p => p.isLocked).length} of ${pieces.length} pieces placed`}
+          aria-describedby={instructionsId}
+          className="absolute inset-0 block w-full h-full touch-none cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-sky-400"
+        />
+        <p id={instructionsId} className="sr-only">
+          Tab or the arrow keys choose a loose piece. Space or Enter picks it up, the arrow keys move it between board slots, Enter drops it and Escape puts it back.
+          {rotationMode && ' R turns the piece clockwise and Shift R anticlockwise.'}
+        </p>
+        <div aria-live="polite" className="sr-only">{announcement}</div>
+      </div>
+      <div
+        ref={trayRef}
+        className="h-36 landscape:h-auto landscape:w-44 shrink-0 border-t landscape:border-t-0 landscape:border-l border-white/5"
+      >
+        <PieceTray
+          pieces={trayPieces}
+          thumbnails={thumbnails}
+          colours={colours}
+          hintPieceId={hint?.pieceId ?? null}
+          selectedId={selectedId}
+          onGrab={handleTrayGrab}
+        />
+      </div>
     </div>
   );
-};
+});
 
 export default PuzzleBoard;
@@ -0,0 +1,156 @@
+
+import React from 'react';
+import { ChevronLeft, Contrast, Eye, Magnet, Monitor, RotateCcw, Sparkles, Volume2, VolumeX } from 'lucide-react';
+import { Settings } from '../types';
+import { SoundControls } from './SoundSettings';
+import { BOARD_BACKGROUNDS, BOARD_SIZES, defaultSettings, GRID_LINES, PIECE_COUNT_PRESETS, SNAP_STRICTNESS } from '../utils/settings';
+
+interface SettingsViewProps {
+  settings: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+  onBack: () => void;
+}
+
+// A row of mutually exclusive buttons
+const Options = <T extends string | number,>({ label, options, value, onSelect }: {
+  label: string;
+  options: { id: T; label: string }[];
+  value: T;
+  onSelect: (id: T) => void;
+}) => (
+  <div className="space-y-2">
+    <div className="text-xs font-bold uppercase text-slate-400">{label}</div>
+    <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+      {options.map(option => (
+        <button
+          key={option.id}
+          onClick={() => onSelect(option.id)}
+          className={`p-3 rounded-2xl border text-xs font-bold transition-all ${value === option.id ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+          aria-pressed={value === option.id}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const Toggle: React.FC<{ icon: React.ReactNode; label: string; detail: string; on: boolean; onToggle: () => void }> = ({ icon, label, detail, on, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className={`w-full flex items-center gap-4 p-4 rounded-2xl border transition-all ${on ? 'bg-indigo-600/20 border-indigo-500' : 'bg-white/5 border-white/10'}`}
+    aria-pressed={on}
+  >
+    <span className={on ? 'text-indigo-400' : 'text-slate-500'}>{icon}</span>
+    <div className="text-left flex-1">
+      <div className="text-sm font-bold">{label}</div>
+      <div className="text-xs text-slate-500">{detail}</div>
+    </div>
+    <div className={`w-10 h-6 rounded-full p-1 transition-colors ${on ? 'bg-indigo-500' : 'bg-white/10'}`}>
+      <div className={`w-4 h-4 rounded-full bg-white transition-transform ${on ? 'translate-x-4' : ''}`} />
+    </div>
+  </button>
+);
+
+const Section: React.FC<{ icon: React.ReactNode; title: string; children: React.ReactNode }> = ({ icon, title, children }) => (
+  <section className="space-y-4 p-5 bg-white/5 border border-white/5 rounded-3xl">
+    <h2 className="text-lg font-bold flex items-center gap-2">{icon}{title}</h2>
+    {children}
+  </section>
+);
+
+// Gameplay, display and sound preferences; every change applies and saves straight away
+const SettingsView: React.FC<SettingsViewProps> = ({ settings, onChange, onBack }) => (
+  <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col p-6 safe-area-inset">
+    <div className="flex items-center gap-4 mb-8">
+      <button onClick={onBack} className="p-3 bg-white/5 rounded-full hover:bg-white/10">
+        <ChevronLeft className="w-6 h-6" />
+      </button>
+      <h1 className="text-2xl font-bold flex-1">Settings</h1>
+      <button onClick={() => onChange(defaultSettings())} className="flex items-center gap-2 px-4 py-2 bg-white/5 rounded-xl hover:bg-white/10 text-sm font-bold">
+        <RotateCcw className="w-4 h-4" /> Defaults
+      </button>
+    </div>
+
+    <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
+      <div className="max-w-2xl mx-auto space-y-6 pb-6">
+        <Section icon={<Magnet className="w-5 h-5 text-indigo-400" />} title="Gameplay">
+          <Options
+            label="Snapping"
+            options={SNAP_STRICTNESS}
+            value={settings.snapStrictness}
+            onSelect={snapStrictness => onChange({ snapStrictness })}
+          />
+          <Options
+            label="New puzzles start at"
+            options={PIECE_COUNT_PRESETS.map(p => ({ id: p.count, label: `${p.l} · ${p.count}` }))}
+            value={settings.defaultPieceCount}
+            onSelect={defaultPieceCount => onChange({ defaultPieceCount })}
+          />
+        </Section>
+
+        <Section icon={<Monitor className="w-5 h-5 text-indigo-400" />} title="Board">
+          <Options label="Picture size" options={BOARD_SIZES} value={settings.boardSize} onSelect={boardSize => onChange({ boardSize })} />
+          <div className="space-y-2">
+            <div className="text-xs font-bold uppercase text-slate-400">Background</div>
+            <div className="grid grid-cols-4 gap-2">
+              {BOARD_BACKGROUNDS.map(bg => (
+                <button
+                  key={bg.id}
+                  onClick={() => onChange({ background: bg.id })}
+                  className={`h-16 rounded-2xl border-2 flex items-end p-2 text-xs font-bold transition-all ${settings.background === bg.id ? 'border-indigo-400' : 'border-white/10 hover:border-white/30'}`}
+                  style={{ background: bg.css }}
+                  aria-pressed={settings.background === bg.id}
+                >
+                  <span className={bg.light ? 'text-slate-900' : 'text-white'}>{bg.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <Options label="Grid lines" options={GRID_LINES} value={settings.gridLines} onSelect={gridLines => onChange({ gridLines })} />
+          <label className="block space-y-2">
+            <span className="flex items-center gap-2 text-xs font-bold uppercase text-slate-400">
+              <Eye className="w-4 h-4" /> Preview strength
+              <span className="ml-auto font-mono text-slate-500">{Math.round(settings.previewOpacity * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min={5}
+              max={60}
+              value={Math.round(settings.previewOpacity * 100)}
+              onChange={(e) => onChange({ previewOpacity: Number(e.target.value) / 100 })}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+          <Toggle
+            icon={<Sparkles />}
+            label="Effects"
+            detail="Snap ripples, sparkles and pulsing hints. Off reduces motion."
+            on={settings.effects}
+            onToggle={() => onChange({ effects: !settings.effects })}
+          />
+          <Toggle
+            icon={<Contrast />}
+            label="High-contrast outlines"
+            detail="Bold piece edges and target slots"
+            on={settings.highContrast}
+            onToggle={() => onChange({ highContrast: !settings.highContrast })}
+          />
+        </Section>
+
+        <Section icon={<Volume2 className="w-5 h-5 text-indigo-400" />} title="Sound">
+          <Toggle
+            icon={settings.muted ? <VolumeX /> : <Volume2 />}
+            label="Mute"
+            detail="Silences music and effects; vibration still works"
+            on={settings.muted}
+            onToggle={() => onChange({ muted: !settings.muted })}
+          />
+          <SoundControls settings={settings} onChange={onChange} />
+        </Section>
+      </div>
+    </div>
+  </div>
+);
+
+export default SettingsView;
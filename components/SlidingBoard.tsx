@@ -0,0 +1,171 @@
+
+import React, { useCallback, useEffect, useId, useRef, useState } from 'react';
+import { Difficulty, Settings } from '../types';
+import { BoardLayout, computeLayout } from '../engine/puzzleEngine';
+import { cellPosition, gapTile, isSlidingSolved, isValidBoard, shuffleTiles, SlideDirection, SlideOutcome, slideTile, slideToward } from '../engine/slidingEngine';
+import { playSound } from '../services/audio';
+import { boardBackground, boardFill } from '../utils/settings';
+
+interface SlidingBoardProps {
+  image: string;
+  difficulty: Difficulty;
+  seed: number;
+  showPreview: boolean;
+  settings: Settings;
+  initialTiles?: number[] | null;
+  onSolved: () => void;
+  // delta is the number of tiles that slid
+  onMove: (tiles: number[], delta: number) => void;
+}
+
+// How far a finger must travel to count as a swipe rather than a tap, in CSS pixels
+const SWIPE_DISTANCE = 24;
+const SLIDE_MS = 150;
+
+const ARROW_KEYS: Record<string, SlideDirection> = { ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right' };
+
+// A sliding-tile puzzle cut from the same picture as a jigsaw: tap a tile in line with the gap, or swipe, to slide it
+const SlidingBoard: React.FC<SlidingBoardProps> = ({ image, difficulty, seed, showPreview, settings, initialTiles, onSolved, onMove }) => {
+  const { rows, cols } = difficulty;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [layout, setLayout] = useState<BoardLayout | null>(null);
+  // The seed always deals the same board; a saved one from this grid takes its place
+  const [tiles, setTiles] = useState(() =>
+    initialTiles && isValidBoard(initialTiles, difficulty) ? initialTiles : shuffleTiles(difficulty, seed)
+  );
+  const swipeRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const instructionsId = useId();
+  const solved = isSlidingSolved(tiles);
+  const fill = boardFill(settings);
+
+  useEffect(() => {
+    const img = new Image();
+    img.src = image;
+    img.onload = () => setAspect(img.width / img.height);
+  }, [image]);
+
+  const measureLayout = useCallback(() => {
+    if (!aspect || !containerRef.current) return;
+    const container = containerRef.current;
+    setLayout(computeLayout(container.clientWidth, container.clientHeight, aspect, rows, cols, fill));
+  }, [aspect, rows, cols, fill]);
+
+  useEffect(() => {
+    measureLayout();
+    window.addEventListener('resize', measureLayout);
+    return () => window.removeEventListener('resize', measureLayout);
+  }, [measureLayout]);
+
+  const commitSlide = (outcome: SlideOutcome | null) => {
+    if (!outcome) {
+      playSound('wrongDrop');
+      return;
+    }
+    setTiles(outcome.tiles);
+    onMove(outcome.tiles, outcome.moved.length);
+    if (isSlidingSolved(outcome.tiles)) {
+      setAnnouncement('Solved.');
+      playSound('complete');
+      setTimeout(onSolved, 800);
+      return;
+    }
+    const home = outcome.tiles.filter((tile, cell) => tile === cell).length;
+    setAnnouncement(`Slid ${outcome.moved.length === 1 ? 'a tile' : `${outcome.moved.length} tiles`}. ${home} of ${tiles.length} in place.`);
+    playSound('drop');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (solved || swipeRef.current) return;
+    swipeRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const swipe = swipeRef.current;
+    if (!swipe || swipe.pointerId !== e.pointerId) return;
+    swipeRef.current = null;
+    if (solved || !layout || e.type === 'pointercancel') return;
+
+    const dx = e.clientX - swipe.x;
+    const dy = e.clientY - swipe.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) >= SWIPE_DISTANCE) {
+      const direction: SlideDirection = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? 'right' : 'left') : (dy > 0 ? 'down' : 'up');
+      commitSlide(slideToward(tiles, direction, difficulty));
+      return;
+    }
+    // A tap slides the tile under the finger, along with any between it and the gap
+    const rect = e.currentTarget.getBoundingClientRect();
+    const col = Math.floor((e.clientX - rect.left) / layout.pw);
+    const row = Math.floor((e.clientY - rect.top) / layout.ph);
+    if (row < 0 || row >= rows || col < 0 || col >= cols) return;
+    commitSlide(slideTile(tiles, row * cols + col, difficulty));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const direction = ARROW_KEYS[e.key];
+    if (!direction || solved) return;
+    e.preventDefault();
+    commitSlide(slideToward(tiles, direction, difficulty));
+  };
+
+  const gap = gapTile(difficulty);
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full" style={{ background: boardBackground(settings).css }}>
+      {layout && (
+        <div
+          onPointerDown={handlePointerDown}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+          tabIndex={0}
+          role="application"
+          aria-roledescription="sliding puzzle"
+          aria-label={`Sliding puzzle, ${tiles.filter((tile, cell) => tile === cell).length} of ${tiles.length} tiles in place`}
+          aria-describedby={instructionsId}
+          className="absolute touch-none rounded-lg overflow-hidden shadow-2xl bg-black/40 focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+          style={{ left: layout.boardX, top: layout.boardY, width: layout.bw, height: layout.bh }}
+        >
+          {tiles.map((tile, cell) => {
+            const at = cellPosition(cell, cols);
+            const slice = cellPosition(tile, cols);
+            const hidden = tile === gap && !solved;
+            return (
+              // Keyed by tile so each one keeps its element and the transform change animates the slide
+              <div
+                key={tile}
+                className={`absolute ${solved ? '' : settings.highContrast ? 'ring-2 ring-inset ring-white' : 'ring-1 ring-inset ring-black/40'}`}
+                style={{
+                  width: layout.pw,
+                  height: layout.ph,
+                  transform: `translate(${at.col * layout.pw}px, ${at.row * layout.ph}px)`,
+                  transition: settings.effects ? `transform ${SLIDE_MS}ms ease-out, opacity 600ms` : undefined,
+                  opacity: hidden ? 0 : 1,
+                  backgroundImage: `url(${image})`,
+                  backgroundSize: `${layout.bw}px ${layout.bh}px`,
+                  backgroundPosition: `${-slice.col * layout.pw}px ${-slice.row * layout.ph}px`
+                }}
+              />
+            );
+          })}
+          {showPreview && (
+            <img
+              src={image}
+              alt=""
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              style={{ opacity: settings.previewOpacity }}
+            />
+          )}
+        </div>
+      )}
+      <p id={instructionsId} className="sr-only">
+        The arrow keys slide the tile beside the gap in that direction. Put every tile back in its place to finish the picture.
+      </p>
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+    </div>
+  );
+};
+
+export default SlidingBoard;
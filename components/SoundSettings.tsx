@@ -0,0 +1,88 @@
+
+import React from 'react';
+import { Music, Vibrate, Volume2, VolumeX, X } from 'lucide-react';
+import { Settings } from '../types';
+import { SOUND_THEMES } from '../services/audio';
+
+interface SoundSettingsProps {
+  settings: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+  onClose: () => void;
+}
+
+const VolumeSlider: React.FC<{ label: string; icon: React.ReactNode; value: number; disabled: boolean; onChange: (value: number) => void }> = ({ label, icon, value, disabled, onChange }) => (
+  <label className={`flex items-center gap-3 ${disabled ? 'opacity-40' : ''}`}>
+    <span className="text-slate-400">{icon}</span>
+    <span className="w-16 text-xs font-bold uppercase text-slate-400">{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={100}
+      value={Math.round(value * 100)}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value) / 100)}
+      className="flex-1 accent-indigo-500"
+    />
+    <span className="w-9 text-right text-xs font-mono text-slate-500">{Math.round(value * 100)}</span>
+  </label>
+);
+
+// Theme picker, volumes and vibration; shared by the in-game panel and the settings screen
+export const SoundControls: React.FC<Omit<SoundSettingsProps, 'onClose'>> = ({ settings, onChange }) => (
+  <div className="space-y-5">
+    <div className="grid grid-cols-3 gap-2">
+      {SOUND_THEMES.map(theme => (
+        <button
+          key={theme.id}
+          onClick={() => onChange({ soundTheme: theme.id })}
+          className={`p-3 rounded-2xl border text-xs font-bold transition-all ${settings.soundTheme === theme.id ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+          title={theme.description}
+          aria-pressed={settings.soundTheme === theme.id}
+        >
+          {theme.name}
+        </button>
+      ))}
+    </div>
+
+    <div className="space-y-3">
+      <VolumeSlider label="Music" icon={<Music className="w-4 h-4" />} value={settings.musicVolume} disabled={settings.muted} onChange={(musicVolume) => onChange({ musicVolume })} />
+      <VolumeSlider label="Effects" icon={<Volume2 className="w-4 h-4" />} value={settings.effectsVolume} disabled={settings.muted} onChange={(effectsVolume) => onChange({ effectsVolume })} />
+    </div>
+
+    <label className="flex items-center gap-3 cursor-pointer">
+      <Vibrate className="w-4 h-4 text-slate-400" />
+      <span className="flex-1 text-xs font-bold uppercase text-slate-400">Vibrate on snap</span>
+      <input type="checkbox" checked={settings.haptics} onChange={(e) => onChange({ haptics: e.target.checked })} className="w-4 h-4 accent-indigo-500" />
+    </label>
+  </div>
+);
+
+// Sound theme, volumes and vibration, opened from the speaker button during a game
+const SoundSettings: React.FC<SoundSettingsProps> = ({ settings, onChange, onClose }) => (
+  <div
+    role="dialog"
+    aria-label="Sound settings"
+    className="absolute top-full right-4 mt-2 z-50 w-80 p-5 space-y-5 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl"
+  >
+    <div className="flex items-center justify-between">
+      <h2 className="text-sm font-black uppercase tracking-widest">Sound</h2>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onChange({ muted: !settings.muted })}
+          className={`p-2 rounded-xl ${settings.muted ? 'bg-red-500/20 text-red-300' : 'text-slate-400 hover:text-white'}`}
+          title={settings.muted ? 'Unmute' : 'Mute'}
+          aria-pressed={settings.muted}
+        >
+          {settings.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+        </button>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+
+    <SoundControls settings={settings} onChange={onChange} />
+  </div>
+);
+
+export default SoundSettings;
@@ -0,0 +1,108 @@
+
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, Download, Trophy } from 'lucide-react';
+import { GameRecord } from '../types';
+import { loadRecords } from '../services/storage';
+import { bestResults, recordsToCsv, summarize, summarizeByMonth } from '../utils/stats';
+import { formatGrid } from '../utils/grid';
+import { modeLabel } from '../utils/modes';
+import { downloadFile } from '../utils/download';
+import { formatTime } from '../utils/time';
+
+interface StatsViewProps {
+  onBack: () => void;
+}
+
+const StatsView: React.FC<StatsViewProps> = ({ onBack }) => {
+  const [records, setRecords] = useState<GameRecord[]>([]);
+
+  useEffect(() => {
+    loadRecords().then(setRecords).catch(error => console.error("Loading records failed:", error));
+  }, []);
+
+  const summary = summarize(records);
+  const months = summarizeByMonth(records);
+  const bests = bestResults(records);
+
+  const exportJson = () => downloadFile('puzzle-history.json', JSON.stringify(records, null, 2), 'application/json');
+  const exportCsv = () => downloadFile('puzzle-history.csv', recordsToCsv(records), 'text/csv');
+
+  return (
+    <div className="fixed inset-0 bg-[#0a0a0c] text-slate-100 flex flex-col p-6 safe-area-inset">
+      <div className="flex items-center gap-4 mb-8">
+        <button onClick={onBack} className="p-3 bg-white/5 rounded-full hover:bg-white/10">
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-2xl font-bold flex-1">Statistics</h1>
+        <button onClick={exportJson} disabled={!records.length} className="flex items-center gap-2 px-4 py-2 bg-white/5 rounded-xl hover:bg-white/10 text-sm font-bold disabled:opacity-30">
+          <Download className="w-4 h-4" /> JSON
+        </button>
+        <button onClick={exportCsv} disabled={!records.length} className="flex items-center gap-2 px-4 py-2 bg-white/5 rounded-xl hover:bg-white/10 text-sm font-bold disabled:opacity-30">
+          <Download className="w-4 h-4" /> CSV
+        </button>
+      </div>
+
+      {records.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-slate-500 gap-4">
+          <Trophy className="w-12 h-12" />
+          <p>Finish a puzzle to start your statistics.</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto pr-2 space-y-8 custom-scrollbar">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { l: 'Games', v: summary.games.toString() },
+              { l: 'Total Time', v: formatTime(summary.totalTime) },
+              { l: 'Avg Time', v: formatTime(Math.round(summary.averageTime)) },
+              { l: 'Avg Moves', v: Math.round(summary.averageMoves).toString() },
+            ].map(card => (
+              <div key={card.l} className="bg-white/5 border border-white/5 p-4 rounded-3xl">
+                <div className="text-[10px] uppercase font-black text-slate-500">{card.l}</div>
+                <div className="text-2xl font-mono font-bold">{card.v}</div>
+              </div>
+            ))}
+          </div>
+
+          <section className="space-y-3">
+            <h2 className="text-xl font-bold">Personal Bests</h2>
+            <div className="rounded-2xl border border-white/10 overflow-hidden">
+              {bests.map(best => (
+                <div key={best.key} className="flex items-center gap-4 p-4 border-b border-white/5 last:border-b-0 bg-slate-900/60">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{best.title}</div>
+                    <div className="text-xs text-slate-500">{formatGrid(best.difficulty)}{best.puzzleType === 'sliding' && ' · Sliding'}{best.rotationMode && ' · Rotated'}{best.mode !== 'classic' && ` · ${modeLabel(best.mode)}`} · {best.plays} {best.plays === 1 ? 'play' : 'plays'}</div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-[9px] uppercase font-black text-slate-500">Best Time</div>
+                    <div className="font-mono font-bold">{formatTime(best.bestTime)}</div>
+                  </div>
+                  <div className="text-right w-20">
+                    <div className="text-[9px] uppercase font-black text-slate-500">Fewest Moves</div>
+                    <div className="font-mono font-bold">{best.fewestMoves}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="text-xl font-bold">By Month</h2>
+            <div className="rounded-2xl border border-white/10 overflow-hidden">
+              {months.map(month => (
+                <div key={month.period} className="flex items-center gap-4 p-4 border-b border-white/5 last:border-b-0 bg-slate-900/60 font-mono text-sm">
+                  <div className="flex-1 font-bold">{month.period}</div>
+                  <div className="w-20 text-right">{month.games} games</div>
+                  <div className="w-24 text-right">{formatTime(Math.round(month.averageTime))} avg</div>
+                  <div className="w-24 text-right">{Math.round(month.averageMoves)} moves</div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">{summary.hints} hints and {summary.peeks} peeks used overall.</p>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsView;
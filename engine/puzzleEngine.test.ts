@@ -0,0 +1,273 @@
+
+import { describe, expect, it } from 'vitest';
+import { Piece } from '../types';
+import {
+  applySnapshots, clampGroups, computeLayout, createPieces, diffLayouts, dragPiece, dropPiece, isSolved, lockGroup, moveToSlot,
+  pickHintPiece, pickPiece, relayoutPieces, restorePieces, returnToTray, serializePieces, takeFromTray, toSnapshot, turnPiece
+} from './puzzleEngine';
+
+const GRID = { rows: 3, cols: 4 };
+// A 4:3 picture in an 800x600 play area: 680x510 board, 170px pieces
+const LAYOUT = computeLayout(800, 600, 4 / 3, GRID.rows, GRID.cols);
+
+const deal = (rotationMode = false) => createPieces(GRID, 42, rotationMode, LAYOUT);
+
+const byId = (pieces: Piece[], id: number) => pieces.find(p => p.id === id)!;
+
+// Puts piece `id` on the table with its top-left at (x, y)
+const place = (pieces: Piece[], id: number, x: number, y: number) =>
+  pieces.map(p => p.id === id ? { ...p, inTray: false, currentX: x, currentY: y } : p);
+
+describe('computeLayout', () => {
+  it('fits the board inside the play area at the picture aspect ratio', () => {
+    expect(LAYOUT.bw).toBeCloseTo(680);
+    expect(LAYOUT.bh).toBeCloseTo(510);
+    expect(LAYOUT.boardX).toBeCloseTo(60);
+    expect(LAYOUT.boardY).toBeCloseTo(45);
+    expect(LAYOUT.pw).toBeCloseTo(170);
+    expect(LAYOUT.ph).toBeCloseTo(170);
+  });
+
+  it('fills the height when the play area is wider than the picture', () => {
+    const wide = computeLayout(2000, 500, 1, 2, 2);
+    expect(wide.bh).toBeCloseTo(425);
+    expect(wide.bw).toBeCloseTo(425);
+  });
+
+  it('takes a custom share of the play area', () => {
+    const compact = computeLayout(800, 600, 4 / 3, GRID.rows, GRID.cols, 0.5);
+    expect(compact.bw).toBeCloseTo(400);
+    expect(compact.boardX).toBeCloseTo(200);
+  });
+});
+
+describe('createPieces', () => {
+  it('deals every piece into the tray, unlocked, in its own group', () => {
+    const pieces = deal();
+    expect(pieces).toHaveLength(12);
+    expect(pieces.every(p => p.inTray && !p.isLocked && p.rotation === 0)).toBe(true);
+    expect(new Set(pieces.map(p => p.groupId)).size).toBe(12);
+    expect(byId(pieces, 5)).toMatchObject({ row: 1, col: 1, targetX: LAYOUT.boardX + LAYOUT.pw, targetY: LAYOUT.boardY + LAYOUT.ph });
+  });
+
+  it('deals the same puzzle for the same seed', () => {
+    expect(deal()).toEqual(deal());
+    expect(createPieces(GRID, 7, true, LAYOUT)).not.toEqual(deal(true));
+  });
+
+  it('shuffles the tray order', () => {
+    const order = deal().map(p => p.zIndex);
+    expect([...order].sort((a, b) => a - b)).toEqual(order.map((_, i) => i));
+    expect(order).not.toEqual(order.map((_, i) => i));
+  });
+
+  it('gives matching edges to neighbours', () => {
+    const pieces = deal();
+    const left = byId(pieces, 0);
+    const right = byId(pieces, 1);
+    expect(left.edges.right).toBe(-right.edges.left);
+    expect(left.edges.top).toBe(0);
+  });
+
+  it('turns pieces only in rotation mode', () => {
+    expect(deal(true).some(p => p.rotation !== 0)).toBe(true);
+  });
+});
+
+describe('serializePieces / restorePieces', () => {
+  it('round-trips a game through board-relative positions', () => {
+    const pieces = place(deal(), 3, 123, 456);
+    expect(restorePieces(serializePieces(pieces, LAYOUT), LAYOUT)).toEqual(pieces);
+  });
+
+  it('restores onto a different screen size', () => {
+    const saved = serializePieces(place(deal(), 0, LAYOUT.boardX, LAYOUT.boardY), LAYOUT);
+    const small = computeLayout(400, 300, 4 / 3, GRID.rows, GRID.cols);
+    const restored = byId(restorePieces(saved, small), 0);
+    expect(restored.currentX).toBeCloseTo(small.boardX);
+    expect(restored.targetY).toBeCloseTo(small.boardY);
+  });
+});
+
+describe('picking and dragging', () => {
+  it('raises the picked cluster above everything else', () => {
+    const pieces = pickPiece(deal(), 4);
+    expect(byId(pieces, 4).zIndex).toBe(12);
+  });
+
+  it('takes a piece out of the tray centred under the pointer', () => {
+    const pieces = takeFromTray(deal(), 2, 400, 300, LAYOUT);
+    expect(byId(pieces, 2)).toMatchObject({ inTray: false, currentX: 400 - LAYOUT.pw / 2, currentY: 300 - LAYOUT.ph / 2 });
+    expect(byId(returnToTray(pieces, 2), 2).inTray).toBe(true);
+  });
+
+  it('keeps a piece taken at the edge inside the play area', () => {
+    const piece = byId(takeFromTray(deal(), 2, 0, 0, LAYOUT), 2);
+    expect(piece.currentX).toBe(0);
+    expect(piece.currentY).toBe(0);
+  });
+
+  it('drags a whole cluster and stops it at the edge of the play area', () => {
+    let pieces = place(place(deal(), 0, 100, 100), 1, 100 + LAYOUT.pw, 100);
+    pieces = pieces.map(p => p.id === 1 ? { ...p, groupId: 0 } : p);
+    pieces = dragPiece(pieces, 0, 200, 150, LAYOUT);
+    expect(byId(pieces, 0)).toMatchObject({ currentX: 200, currentY: 150 });
+    expect(byId(pieces, 1)).toMatchObject({ currentX: 200 + LAYOUT.pw, currentY: 150 });
+
+    pieces = dragPiece(pieces, 0, 10_000, -50, LAYOUT);
+    expect(byId(pieces, 1).currentX).toBeCloseTo(LAYOUT.cw - LAYOUT.pw);
+    expect(byId(pieces, 0).currentY).toBe(0);
+  });
+
+  it('moves a cluster between board slots without leaving the board', () => {
+    let pieces = place(place(deal(), 0, 0, 0), 1, LAYOUT.pw, 0);
+    pieces = pieces.map(p => p.id === 1 ? { ...p, groupId: 0 } : p);
+    const moved = moveToSlot(pieces, 0, 2, 3, GRID, LAYOUT);
+    // Piece 1 sits right of piece 0, so piece 0 can reach column 2 at most
+    expect(moved).toMatchObject({ row: 2, col: 2 });
+    expect(byId(moved.pieces, 0).currentX).toBeCloseTo(LAYOUT.boardX + 2 * LAYOUT.pw);
+    expect(byId(moved.pieces, 1).currentY).toBeCloseTo(LAYOUT.boardY + 2 * LAYOUT.ph);
+  });
+
+  it('turns a piece a quarter at a time in either direction', () => {
+    const pieces = deal();
+    expect(byId(turnPiece(pieces, 0, 1), 0).rotation).toBe(90);
+    expect(byId(turnPiece(pieces, 0, -1), 0).rotation).toBe(270);
+  });
+});
+
+describe('dropPiece', () => {
+  it('locks an upright piece dropped near its slot', () => {
+    const target = byId(deal(), 5);
+    const { pieces, locked, snapped } = dropPiece(place(deal(), 5, target.targetX + 20, target.targetY - 20), 5, LAYOUT);
+    expect(locked).toBe(true);
+    expect(snapped).toEqual([]);
+    expect(byId(pieces, 5)).toMatchObject({ isLocked: true, currentX: target.targetX, currentY: target.targetY, zIndex: 0 });
+  });
+
+  it('does not lock a turned piece or one dropped too far away', () => {
+    const target = byId(deal(), 5);
+    const turned = turnPiece(place(deal(), 5, target.targetX, target.targetY), 5, 1);
+    expect(dropPiece(turned, 5, LAYOUT).locked).toBe(false);
+    const far = place(deal(), 5, target.targetX + LAYOUT.pw * 0.3, target.targetY);
+    expect(dropPiece(far, 5, LAYOUT).locked).toBe(false);
+  });
+
+  it('honours a looser or stricter snap tolerance', () => {
+    const target = byId(deal(), 5);
+    const near = place(deal(), 5, target.targetX + LAYOUT.pw * 0.2, target.targetY);
+    expect(dropPiece(near, 5, LAYOUT, new Set(), 0.15).locked).toBe(false);
+    const far = place(deal(), 5, target.targetX + LAYOUT.pw * 0.3, target.targetY);
+    expect(dropPiece(far, 5, LAYOUT, new Set(), 0.35).locked).toBe(true);
+  });
+
+  it('leaves tray pieces alone', () => {
+    const pieces = deal();
+    expect(dropPiece(pieces, 0, LAYOUT)).toEqual({ pieces, locked: false, snapped: [], misplaced: false });
+  });
+
+  it('flags a piece lined up on the wrong slot, or turned on its own', () => {
+    const slot = byId(deal(), 6);
+    expect(dropPiece(place(deal(), 0, slot.targetX + 5, slot.targetY), 0, LAYOUT).misplaced).toBe(true);
+    const own = byId(deal(), 0);
+    expect(dropPiece(turnPiece(place(deal(), 0, own.targetX, own.targetY), 0, 1), 0, LAYOUT).misplaced).toBe(true);
+    // Off the board, or between slots, is just a drop
+    expect(dropPiece(place(deal(), 0, 0, 0), 0, LAYOUT).misplaced).toBe(false);
+    expect(dropPiece(place(deal(), 0, slot.targetX + LAYOUT.pw / 2, slot.targetY), 0, LAYOUT).misplaced).toBe(false);
+  });
+
+  it('snaps a piece onto a nearby neighbour and joins its group', () => {
+    let pieces = place(deal(), 0, 10, 10);
+    pieces = place(pieces, 1, 10 + LAYOUT.pw + 15, 10 + 12);
+    const before = pieces;
+    const { pieces: after, locked, snapped } = dropPiece(pieces, 0, LAYOUT);
+    expect(locked).toBe(false);
+    expect(snapped.map(p => p.id)).toEqual([1]);
+    expect(byId(after, 0)).toMatchObject({ currentX: 25, currentY: 22, groupId: byId(after, 1).groupId });
+    // The input list is never modified
+    expect(byId(before, 0).currentX).toBe(10);
+  });
+
+  it('does not snap to clusters held by another pointer', () => {
+    let pieces = place(deal(), 0, 10, 10);
+    pieces = place(pieces, 1, 10 + LAYOUT.pw, 10);
+    const { snapped } = dropPiece(pieces, 0, LAYOUT, new Set([byId(pieces, 1).groupId]));
+    expect(snapped).toEqual([]);
+  });
+
+  it('locks a whole cluster at once', () => {
+    let pieces = deal();
+    const a = byId(pieces, 0);
+    pieces = place(place(pieces, 0, a.targetX + 5, a.targetY), 1, a.targetX + LAYOUT.pw + 5, a.targetY);
+    pieces = pieces.map(p => p.id === 1 ? { ...p, groupId: 0 } : p);
+    const { pieces: after } = dropPiece(pieces, 1, LAYOUT);
+    expect(byId(after, 0).isLocked).toBe(true);
+    expect(byId(after, 1).isLocked).toBe(true);
+  });
+});
+
+describe('isSolved', () => {
+  it('is true only once every piece is locked', () => {
+    let pieces = deal();
+    expect(isSolved(pieces)).toBe(false);
+    pieces.forEach(p => { pieces = lockGroup(pieces, p.groupId); });
+    expect(isSolved(pieces)).toBe(true);
+    expect(isSolved([])).toBe(false);
+  });
+});
+
+describe('pickHintPiece', () => {
+  it('prefers corners, then pieces next to locked ones', () => {
+    const pieces = deal();
+    expect(pickHintPiece(pieces, GRID)?.id).toBe(0);
+    const locked = lockGroup(pieces, byId(pieces, 0).groupId);
+    const hint = pickHintPiece(locked, GRID)!;
+    expect([1, 4]).toContain(hint.id);
+  });
+
+  it('returns null when everything is placed', () => {
+    let pieces = deal();
+    pieces.forEach(p => { pieces = lockGroup(pieces, p.groupId); });
+    expect(pickHintPiece(pieces, GRID)).toBeNull();
+  });
+});
+
+describe('layout changes', () => {
+  it('pushes loose clusters back inside the play area', () => {
+    const pieces = clampGroups(place(deal(), 0, -30, LAYOUT.ch), LAYOUT);
+    expect(byId(pieces, 0)).toMatchObject({ currentX: 0, currentY: LAYOUT.ch - LAYOUT.ph });
+  });
+
+  it('rescales loose and locked pieces to a new layout', () => {
+    let pieces = place(deal(), 0, LAYOUT.boardX + LAYOUT.bw / 2, LAYOUT.boardY);
+    pieces = lockGroup(pieces, byId(pieces, 5).groupId);
+    const to = computeLayout(400, 300, 4 / 3, GRID.rows, GRID.cols);
+    const next = relayoutPieces(pieces, LAYOUT, to);
+    expect(byId(next, 0).currentX).toBeCloseTo(to.boardX + to.bw / 2);
+    expect(byId(next, 5)).toMatchObject({ currentX: to.boardX + to.pw, currentY: to.boardY + to.ph });
+  });
+});
+
+describe('history', () => {
+  it('records only the pieces a move changed and can replay either side', () => {
+    const start = place(deal(), 0, 100, 100);
+    const before = serializePieces(start, LAYOUT);
+    const moved = dragPiece(start, 0, 200, 200, LAYOUT);
+    const after = serializePieces(moved, LAYOUT);
+
+    const changes = diffLayouts(before, after);
+    expect(changes.map(c => c.id)).toEqual([0]);
+    expect(diffLayouts(before, after, new Set([0]))).toEqual([]);
+
+    const undone = applySnapshots(moved, new Map(changes.map(c => [c.id, c.before])), LAYOUT);
+    expect(byId(undone, 0).currentX).toBeCloseTo(100);
+    const redone = applySnapshots(undone, new Map(changes.map(c => [c.id, c.after])), LAYOUT);
+    expect(byId(redone, 0).currentX).toBeCloseTo(200);
+  });
+
+  it('fills in defaults for layouts saved before rotation and the tray', () => {
+    const [saved] = serializePieces(deal(), LAYOUT);
+    const { rotation, inTray, ...legacy } = saved;
+    expect(toSnapshot(legacy)).toMatchObject({ rotation: 0, inTray: false });
+  });
+});
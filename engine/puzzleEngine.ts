@@ -0,0 +1,357 @@
+
+import { Difficulty, Piece, PieceRotation, SavedPiece } from '../types';
+import { generateEdges } from '../utils/jigsaw';
+import { createRng } from '../utils/random';
+
+// The jigsaw rules with no React or canvas: every action takes the piece list and returns a new one.
+// Positions are world units (CSS pixels of the play area) described by a BoardLayout.
+
+export interface BoardLayout {
+  cw: number; // play area
+  ch: number;
+  boardX: number; // where the finished picture goes
+  boardY: number;
+  bw: number;
+  bh: number;
+  pw: number; // one piece body
+  ph: number;
+}
+
+export type PieceSnapshot = Pick<SavedPiece, 'x' | 'y' | 'isLocked' | 'zIndex' | 'groupId'> & { rotation: PieceRotation; inTray: boolean };
+
+export interface PieceChange {
+  id: number;
+  before: PieceSnapshot;
+  after: PieceSnapshot;
+}
+
+export interface DropOutcome {
+  pieces: Piece[];
+  locked: boolean; // the dropped cluster went into its place
+  snapped: Piece[]; // neighbours it joined, for effects
+  misplaced: boolean; // left lined up on a board slot that isn't its place, or turned on its own
+}
+
+export const ROTATIONS: PieceRotation[] = [0, 90, 180, 270];
+
+// How close a piece must come to its slot, or a neighbour to where it belongs, as a share of the piece width
+export const SNAP_TOLERANCE = 0.25;
+// Share of the play area the finished picture takes
+export const BOARD_FILL = 0.85;
+
+const NEIGHBOUR_OFFSETS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// Fits the board into the play area while keeping the image aspect ratio
+export const computeLayout = (cw: number, ch: number, imgAspect: number, rows: number, cols: number, fillFactor = BOARD_FILL): BoardLayout => {
+  const containerAspect = cw / ch;
+
+  let bw, bh;
+  if (containerAspect > imgAspect) {
+    bh = ch * fillFactor;
+    bw = bh * imgAspect;
+  } else {
+    bw = cw * fillFactor;
+    bh = bw / imgAspect;
+  }
+
+  return {
+    cw,
+    ch,
+    boardX: (cw - bw) / 2,
+    boardY: (ch - bh) / 2,
+    bw,
+    bh,
+    pw: bw / cols,
+    ph: bh / rows
+  };
+};
+
+/**
+ * Cuts a new puzzle. Every piece starts in the tray at its target position;
+ * shapes, tray order and (in rotation mode) turns all come from `seed`.
+ */
+export const createPieces = ({ rows, cols }: Difficulty, seed: number, rotationMode: boolean, layout: BoardLayout): Piece[] => {
+  const { boardX, boardY, pw, ph } = layout;
+  const random = createRng(seed);
+  const edges = generateEdges(rows, cols, random);
+  const pieces: Piece[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      pieces.push({
+        id: r * cols + c,
+        row: r,
+        col: c,
+        currentX: boardX + c * pw,
+        currentY: boardY + r * ph,
+        targetX: boardX + c * pw,
+        targetY: boardY + r * ph,
+        isLocked: false,
+        zIndex: r * cols + c,
+        edges: edges[r][c],
+        groupId: r * cols + c,
+        rotation: rotationMode ? ROTATIONS[Math.floor(random() * ROTATIONS.length)] : 0,
+        inTray: true
+      });
+    }
+  }
+  // Shuffle the tray order (z-order) so neighbours aren't dealt side by side
+  for (let i = pieces.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pieces[i].zIndex, pieces[j].zIndex] = [pieces[j].zIndex, pieces[i].zIndex];
+  }
+  return pieces;
+};
+
+// Saved positions are board-relative so a game can be restored on any screen size
+export const serializePieces = (pieces: Piece[], layout: BoardLayout): SavedPiece[] =>
+  pieces.map(p => ({
+    id: p.id,
+    row: p.row,
+    col: p.col,
+    x: (p.currentX - layout.boardX) / layout.bw,
+    y: (p.currentY - layout.boardY) / layout.bh,
+    isLocked: p.isLocked,
+    zIndex: p.zIndex,
+    edges: p.edges,
+    groupId: p.groupId,
+    rotation: p.rotation,
+    inTray: p.inTray
+  }));
+
+export const restorePieces = (saved: SavedPiece[], layout: BoardLayout): Piece[] =>
+  saved.map(sp => ({
+    id: sp.id,
+    row: sp.row,
+    col: sp.col,
+    currentX: layout.boardX + sp.x * layout.bw,
+    currentY: layout.boardY + sp.y * layout.bh,
+    targetX: layout.boardX + sp.col * layout.pw,
+    targetY: layout.boardY + sp.row * layout.ph,
+    isLocked: sp.isLocked,
+    zIndex: sp.zIndex,
+    edges: sp.edges,
+    groupId: sp.groupId,
+    rotation: sp.rotation ?? 0,
+    inTray: sp.inTray ?? false
+  }));
+
+// Pushes loose clusters back onto the play area, shifting each one as a whole so it stays joined
+export const clampGroups = (pieces: Piece[], layout: BoardLayout): Piece[] => {
+  const shifts = new Map<number, { dx: number; dy: number }>();
+  pieces.forEach(p => {
+    if (p.isLocked || p.inTray || shifts.has(p.groupId)) return;
+    const group = pieces.filter(q => q.groupId === p.groupId);
+    const minX = Math.min(...group.map(q => q.currentX));
+    const minY = Math.min(...group.map(q => q.currentY));
+    const maxX = Math.max(...group.map(q => q.currentX)) + layout.pw;
+    const maxY = Math.max(...group.map(q => q.currentY)) + layout.ph;
+    shifts.set(p.groupId, {
+      dx: minX < 0 ? -minX : Math.min(0, layout.cw - maxX),
+      dy: minY < 0 ? -minY : Math.min(0, layout.ch - maxY)
+    });
+  });
+  return pieces.map(p => {
+    const shift = shifts.get(p.groupId);
+    if (p.isLocked || p.inTray || !shift) return p;
+    return { ...p, currentX: p.currentX + shift.dx, currentY: p.currentY + shift.dy };
+  });
+};
+
+// Rescales a game in progress to a new layout (rotation, window resize) instead of reshuffling it
+export const relayoutPieces = (pieces: Piece[], from: BoardLayout, to: BoardLayout): Piece[] =>
+  clampGroups(pieces.map(p => {
+    const targetX = to.boardX + p.col * to.pw;
+    const targetY = to.boardY + p.row * to.ph;
+    if (p.isLocked) return { ...p, targetX, targetY, currentX: targetX, currentY: targetY };
+    return {
+      ...p,
+      targetX,
+      targetY,
+      currentX: to.boardX + ((p.currentX - from.boardX) / from.bw) * to.bw,
+      currentY: to.boardY + ((p.currentY - from.boardY) / from.bh) * to.bh
+    };
+  }), to);
+
+// Lifts the cluster of piece `id` above everything else
+export const pickPiece = (pieces: Piece[], id: number): Piece[] => {
+  const piece = pieces.find(p => p.id === id);
+  if (!piece) return pieces;
+  const maxZ = Math.max(...pieces.map(p => p.zIndex));
+  return pieces.map(p => p.groupId === piece.groupId ? { ...p, zIndex: maxZ + 1 } : p);
+};
+
+// Puts a tray piece on the table centred on (x, y), kept inside the play area
+export const takeFromTray = (pieces: Piece[], id: number, x: number, y: number, layout: BoardLayout): Piece[] => {
+  const currentX = Math.max(0, Math.min(layout.cw - layout.pw, x - layout.pw / 2));
+  const currentY = Math.max(0, Math.min(layout.ch - layout.ph, y - layout.ph / 2));
+  return pieces.map(p => p.id === id ? { ...p, inTray: false, currentX, currentY } : p);
+};
+
+export const returnToTray = (pieces: Piece[], id: number): Piece[] =>
+  pieces.map(p => p.id === id ? { ...p, inTray: true } : p);
+
+// Moves the cluster of piece `id` so that piece's top-left lands on (x, y), without letting any of it leave the play area
+export const dragPiece = (pieces: Piece[], id: number, x: number, y: number, layout: BoardLayout): Piece[] => {
+  const anchor = pieces.find(p => p.id === id);
+  if (!anchor) return pieces;
+  const group = pieces.filter(p => p.groupId === anchor.groupId);
+  const minX = Math.min(...group.map(p => p.currentX));
+  const minY = Math.min(...group.map(p => p.currentY));
+  const maxX = Math.max(...group.map(p => p.currentX)) + layout.pw;
+  const maxY = Math.max(...group.map(p => p.currentY)) + layout.ph;
+  const dx = Math.max(-minX, Math.min(layout.cw - maxX, x - anchor.currentX));
+  const dy = Math.max(-minY, Math.min(layout.ch - maxY, y - anchor.currentY));
+  return pieces.map(p => p.groupId === anchor.groupId ? { ...p, currentX: p.currentX + dx, currentY: p.currentY + dy } : p);
+};
+
+/**
+ * Moves the cluster of piece `id` so the piece sits over board slot (row, col).
+ * The slot is clamped so the whole cluster stays over the board; returns the slot used.
+ */
+export const moveToSlot = (pieces: Piece[], id: number, row: number, col: number, { rows, cols }: Difficulty, layout: BoardLayout) => {
+  const piece = pieces.find(p => p.id === id);
+  if (!piece) return { pieces, row, col };
+  const group = pieces.filter(q => q.groupId === piece.groupId);
+  const slotRow = Math.max(-Math.min(...group.map(q => q.row - piece.row)), Math.min(rows - 1 - Math.max(...group.map(q => q.row - piece.row)), row));
+  const slotCol = Math.max(-Math.min(...group.map(q => q.col - piece.col)), Math.min(cols - 1 - Math.max(...group.map(q => q.col - piece.col)), col));
+  const dx = layout.boardX + slotCol * layout.pw - piece.currentX;
+  const dy = layout.boardY + slotRow * layout.ph - piece.currentY;
+  return {
+    pieces: pieces.map(p => p.groupId === piece.groupId ? { ...p, currentX: p.currentX + dx, currentY: p.currentY + dy, inTray: false } : p),
+    row: slotRow,
+    col: slotCol
+  };
+};
+
+export const turnPiece = (pieces: Piece[], id: number, direction: 1 | -1): Piece[] =>
+  pieces.map(p => p.id === id ? { ...p, rotation: ((p.rotation + direction * 90 + 360) % 360) as PieceRotation } : p);
+
+// Puts every piece of a cluster into its place; they all share the same offset from their targets
+export const lockGroup = (pieces: Piece[], groupId: number): Piece[] =>
+  pieces.map(p => p.groupId === groupId ? { ...p, currentX: p.targetX, currentY: p.targetY, isLocked: true, zIndex: 0 } : p);
+
+/**
+ * Joins the group `groupId` with every loose group holding a correct row/col neighbour
+ * within `tolerance` of where it belongs, skipping groups in `held` (grabbed by another
+ * pointer). The dragged group is shifted onto the neighbour it snaps to and takes over
+ * that neighbour's group id.
+ */
+const snapToNeighbours = (source: Piece[], groupId: number, pw: number, ph: number, tolerance: number, held: Set<number>) => {
+  const pieces = [...source];
+  const snapped: Piece[] = [];
+  let currentGroup = groupId;
+  let found = true;
+
+  while (found) {
+    found = false;
+    const members = pieces.filter(p => p.groupId === currentGroup);
+    for (const m of members) {
+      for (const [dr, dc] of NEIGHBOUR_OFFSETS) {
+        const n = pieces.find(p => p.row === m.row + dr && p.col === m.col + dc);
+        // Only upright pieces join, so every cluster is upright
+        if (!n || n.isLocked || n.inTray || n.groupId === currentGroup || held.has(n.groupId) || n.rotation || m.rotation) continue;
+
+        const expectedX = m.currentX + dc * pw;
+        const expectedY = m.currentY + dr * ph;
+        if (Math.hypot(n.currentX - expectedX, n.currentY - expectedY) >= tolerance) continue;
+
+        const dx = n.currentX - expectedX;
+        const dy = n.currentY - expectedY;
+        const z = Math.max(...pieces.filter(p => p.groupId === n.groupId).map(p => p.zIndex), m.zIndex);
+        const targetGroup = n.groupId;
+        pieces.forEach((p, i) => {
+          if (p.groupId === currentGroup) {
+            pieces[i] = { ...p, currentX: p.currentX + dx, currentY: p.currentY + dy, groupId: targetGroup, zIndex: z };
+          } else if (p.groupId === targetGroup) {
+            pieces[i] = { ...p, zIndex: z };
+          }
+        });
+        currentGroup = targetGroup;
+        snapped.push(n);
+        found = true;
+        break;
+      }
+      if (found) break;
+    }
+  }
+  return { pieces, snapped };
+};
+
+// Whether a piece sits within `tolerance` of some board slot
+const onBoardSlot = (p: Piece, layout: BoardLayout, tolerance: number) => {
+  const col = Math.round((p.currentX - layout.boardX) / layout.pw);
+  const row = Math.round((p.currentY - layout.boardY) / layout.ph);
+  if (col < 0 || row < 0 || col >= Math.round(layout.bw / layout.pw) || row >= Math.round(layout.bh / layout.ph)) return false;
+  return Math.hypot(p.currentX - (layout.boardX + col * layout.pw), p.currentY - (layout.boardY + row * layout.ph)) < tolerance;
+};
+
+/**
+ * Lets go of piece `id` where it lies: an upright piece close to its slot locks its whole
+ * cluster, otherwise the cluster joins any matching neighbours nearby. Clusters in `held`
+ * are still being dragged by other pointers and are left alone. `snap` is the tolerance
+ * as a share of the piece width.
+ */
+export const dropPiece = (pieces: Piece[], id: number, layout: BoardLayout, held: Set<number> = new Set(), snap = SNAP_TOLERANCE): DropOutcome => {
+  const p = pieces.find(q => q.id === id);
+  if (!p || p.inTray) return { pieces, locked: false, snapped: [], misplaced: false };
+  const tolerance = layout.pw * snap;
+  if (Math.hypot(p.currentX - p.targetX, p.currentY - p.targetY) < tolerance && p.rotation === 0) {
+    return { pieces: lockGroup(pieces, p.groupId), locked: true, snapped: [], misplaced: false };
+  }
+  const joined = snapToNeighbours(pieces, p.groupId, layout.pw, layout.ph, tolerance, held);
+  const misplaced = joined.snapped.length === 0 && onBoardSlot(p, layout, tolerance);
+  return { pieces: joined.pieces, locked: false, snapped: joined.snapped, misplaced };
+};
+
+export const isSolved = (pieces: Piece[]) => pieces.length > 0 && pieces.every(p => p.isLocked);
+
+/**
+ * Picks the loose piece that is easiest to place next: border pieces first (corners
+ * above plain edges) and, above all, pieces whose board neighbours are already locked.
+ */
+export const pickHintPiece = (pieces: Piece[], { rows, cols }: Difficulty): Piece | null => {
+  let best: Piece | null = null;
+  let bestScore = -1;
+  pieces.forEach(p => {
+    if (p.isLocked) return;
+    const borderSides = [p.row === 0, p.row === rows - 1, p.col === 0, p.col === cols - 1].filter(Boolean).length;
+    const lockedNeighbours = NEIGHBOUR_OFFSETS.filter(([dr, dc]) =>
+      pieces.some(n => n.isLocked && n.row === p.row + dr && n.col === p.col + dc)
+    ).length;
+    const score = lockedNeighbours * 3 + borderSides * 2;
+    if (score > bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const toSnapshot = ({ x, y, isLocked, zIndex, groupId, rotation, inTray }: SavedPiece): PieceSnapshot =>
+  ({ x, y, isLocked, zIndex, groupId, rotation: rotation ?? 0, inTray: inTray ?? false });
+
+const sameSnapshot = (a: PieceSnapshot, b: PieceSnapshot) =>
+  a.x === b.x && a.y === b.y && a.isLocked === b.isLocked && a.zIndex === b.zIndex && a.groupId === b.groupId &&
+  a.rotation === b.rotation && a.inTray === b.inTray;
+
+// Pieces that differ between two serialized layouts of the same puzzle, except those in `skip`
+export const diffLayouts = (before: SavedPiece[], after: SavedPiece[], skip: Set<number> = new Set()): PieceChange[] =>
+  after.flatMap((a, i) => skip.has(a.id) || sameSnapshot(toSnapshot(before[i]), toSnapshot(a))
+    ? []
+    : [{ id: a.id, before: toSnapshot(before[i]), after: toSnapshot(a) }]);
+
+export const applySnapshots = (pieces: Piece[], snapshots: Map<number, PieceSnapshot>, layout: BoardLayout): Piece[] =>
+  pieces.map(p => {
+    const snap = snapshots.get(p.id);
+    if (!snap) return p;
+    return {
+      ...p,
+      currentX: snap.isLocked ? p.targetX : layout.boardX + snap.x * layout.bw,
+      currentY: snap.isLocked ? p.targetY : layout.boardY + snap.y * layout.bh,
+      isLocked: snap.isLocked,
+      zIndex: snap.zIndex,
+      groupId: snap.groupId,
+      rotation: snap.rotation,
+      inTray: snap.inTray
+    };
+  });
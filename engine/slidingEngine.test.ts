@@ -0,0 +1,79 @@
+
+import { describe, expect, it } from 'vitest';
+import { isSlidingSolved, isValidBoard, shuffleTiles, slideTile, slideToward, solvedTiles } from './slidingEngine';
+
+const GRID = { rows: 3, cols: 4 };
+
+// Tiles 0..10 in order with the gap (11) moved to the top-left corner
+//  11  0  1  2
+//   4  5  6  3
+//   8  9 10  7
+const BOARD = [11, 0, 1, 2, 4, 5, 6, 3, 8, 9, 10, 7];
+
+// Every slide swaps the gap with a tile and moves the gap one cell, so on a reachable board
+// the inversions (gap included) and the gap's distance from its corner add up to an even number
+const solvable = (tiles: number[], { rows, cols }: typeof GRID) => {
+  let inversions = 0;
+  tiles.forEach((a, i) => tiles.slice(i + 1).forEach(b => { if (a > b) inversions++; }));
+  const cell = tiles.indexOf(rows * cols - 1);
+  const distance = (rows - 1 - Math.floor(cell / cols)) + (cols - 1 - cell % cols);
+  return (inversions + distance) % 2 === 0;
+};
+
+describe('slideTile', () => {
+  it('slides a tile beside the gap into it', () => {
+    expect(slideTile(BOARD, 1, GRID)).toEqual({ tiles: [0, 11, 1, 2, 4, 5, 6, 3, 8, 9, 10, 7], moved: [0] });
+  });
+
+  it('pushes a whole row or column toward the gap', () => {
+    expect(slideTile(BOARD, 3, GRID)).toEqual({ tiles: [0, 1, 2, 11, 4, 5, 6, 3, 8, 9, 10, 7], moved: [0, 1, 2] });
+    expect(slideTile(BOARD, 8, GRID)!.tiles).toEqual([4, 0, 1, 2, 8, 5, 6, 3, 11, 9, 10, 7]);
+  });
+
+  it('refuses tiles out of line with the gap, and the gap itself', () => {
+    expect(slideTile(BOARD, 5, GRID)).toBeNull();
+    expect(slideTile(BOARD, 0, GRID)).toBeNull();
+  });
+});
+
+describe('slideToward', () => {
+  it('moves the tile on the far side of the gap', () => {
+    expect(slideToward(BOARD, 'left', GRID)!.moved).toEqual([0]);
+    expect(slideToward(BOARD, 'up', GRID)!.moved).toEqual([4]);
+  });
+
+  it('does nothing when no tile can move that way', () => {
+    expect(slideToward(BOARD, 'right', GRID)).toBeNull();
+    expect(slideToward(BOARD, 'down', GRID)).toBeNull();
+  });
+});
+
+describe('shuffleTiles', () => {
+  it('deals every tile once, unsolved and solvable', () => {
+    const tiles = shuffleTiles(GRID, 42);
+    expect(isValidBoard(tiles, GRID)).toBe(true);
+    expect(isSlidingSolved(tiles)).toBe(false);
+    expect(solvable(tiles, GRID)).toBe(true);
+  });
+
+  it('deals the same board for the same seed', () => {
+    expect(shuffleTiles(GRID, 42)).toEqual(shuffleTiles(GRID, 42));
+    expect(shuffleTiles(GRID, 7)).not.toEqual(shuffleTiles(GRID, 42));
+  });
+
+  it('keeps walking rather than end on the finished picture', () => {
+    expect(isSlidingSolved(shuffleTiles({ rows: 2, cols: 2 }, 1, 0))).toBe(false);
+  });
+});
+
+describe('isSlidingSolved / isValidBoard', () => {
+  it('checks every tile is in its own row and column', () => {
+    expect(isSlidingSolved(solvedTiles(GRID))).toBe(true);
+    expect(isSlidingSolved(BOARD)).toBe(false);
+  });
+
+  it('rejects saved boards from another grid or with repeats', () => {
+    expect(isValidBoard(BOARD, { rows: 4, cols: 4 })).toBe(false);
+    expect(isValidBoard([0, 0, 1, 3], { rows: 2, cols: 2 })).toBe(false);
+  });
+});
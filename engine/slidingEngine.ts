@@ -0,0 +1,95 @@
+
+import { Difficulty } from '../types';
+import { createRng } from '../utils/random';
+
+// The sliding-tile rules with no React: a board is the list of tile ids in each cell, row by row.
+// A tile's id is the cell its slice of the picture belongs in (row * cols + col); the last one is left out as the gap.
+
+export type SlideDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface SlideOutcome {
+  tiles: number[];
+  moved: number[]; // tiles that slid, nearest the gap first
+}
+
+// Random gap steps per tile when shuffling; enough to scatter the picture without wasting time
+const SHUFFLE_STEPS_PER_TILE = 20;
+
+const OFFSETS: Record<SlideDirection, [number, number]> = { up: [-1, 0], down: [1, 0], left: [0, -1], right: [0, 1] };
+
+/** Row and column of a cell, or of the slice a tile shows. */
+export const cellPosition = (cell: number, cols: number) => ({ row: Math.floor(cell / cols), col: cell % cols });
+
+/** The tile left out to make the gap: the bottom-right slice. */
+export const gapTile = ({ rows, cols }: Difficulty) => rows * cols - 1;
+
+export const solvedTiles = ({ rows, cols }: Difficulty) => Array.from({ length: rows * cols }, (_, cell) => cell);
+
+/** Solved once every tile is back in its own row and column. */
+export const isSlidingSolved = (tiles: number[]) => tiles.every((tile, cell) => tile === cell);
+
+/** Whether a saved board fits this grid: every tile exactly once. */
+export const isValidBoard = (tiles: number[], { rows, cols }: Difficulty) =>
+  tiles.length === rows * cols && new Set(tiles).size === tiles.length && tiles.every(t => t >= 0 && t < tiles.length);
+
+const neighbours = (cell: number, { rows, cols }: Difficulty) => {
+  const { row, col } = cellPosition(cell, cols);
+  return Object.values(OFFSETS)
+    .map(([dr, dc]) => [row + dr, col + dc])
+    .filter(([r, c]) => r >= 0 && r < rows && c >= 0 && c < cols)
+    .map(([r, c]) => r * cols + c);
+};
+
+/**
+ * Slides the tile in `cell` toward the gap, pushing any tiles between them along with it.
+ * Returns null unless the cell shares a row or column with the gap.
+ */
+export const slideTile = (tiles: number[], cell: number, difficulty: Difficulty): SlideOutcome | null => {
+  const { cols } = difficulty;
+  const gap = tiles.indexOf(gapTile(difficulty));
+  if (cell === gap || cell < 0 || cell >= tiles.length) return null;
+  const from = cellPosition(cell, cols);
+  const to = cellPosition(gap, cols);
+  if (from.row !== to.row && from.col !== to.col) return null;
+
+  const step = Math.sign(cell - gap) * (from.row === to.row ? 1 : cols);
+  const next = [...tiles];
+  const moved: number[] = [];
+  for (let i = gap; i !== cell; i += step) {
+    next[i] = tiles[i + step];
+    moved.push(tiles[i + step]);
+  }
+  next[cell] = tiles[gap];
+  return { tiles: next, moved };
+};
+
+/** A swipe or arrow key: the tile beside the gap slides `direction` into it. Null when there is no such tile. */
+export const slideToward = (tiles: number[], direction: SlideDirection, difficulty: Difficulty): SlideOutcome | null => {
+  const { rows, cols } = difficulty;
+  const gap = cellPosition(tiles.indexOf(gapTile(difficulty)), cols);
+  const [dr, dc] = OFFSETS[direction];
+  // The tile that moves sits on the far side of the gap
+  const row = gap.row - dr;
+  const col = gap.col - dc;
+  if (row < 0 || row >= rows || col < 0 || col >= cols) return null;
+  return slideTile(tiles, row * cols + col, difficulty);
+};
+
+/**
+ * Deals a board by walking the gap through random legal moves from the finished picture, so every deal
+ * can be solved. The walk never steps straight back and never stops on a solved board; `seed` fixes it.
+ */
+export const shuffleTiles = (difficulty: Difficulty, seed: number, steps = difficulty.rows * difficulty.cols * SHUFFLE_STEPS_PER_TILE): number[] => {
+  const random = createRng(seed);
+  let tiles = solvedTiles(difficulty);
+  let gap = tiles.length - 1;
+  let previous = -1;
+  for (let i = 0; i < steps || isSlidingSolved(tiles); i++) {
+    const options = neighbours(gap, difficulty).filter(cell => cell !== previous);
+    const cell = options[Math.floor(random() * options.length)];
+    tiles = slideTile(tiles, cell, difficulty)!.tiles;
+    previous = gap;
+    gap = cell;
+  }
+  return tiles;
+};
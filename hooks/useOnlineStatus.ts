@@ -0,0 +1,19 @@
+
+import { useEffect, useState } from 'react';
+
+// Tracks whether the browser thinks it has a network connection
+export const useOnlineStatus = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
@@ -0,0 +1,276 @@
+
+import { Settings, SoundThemeId } from '../types';
+import { defaultSettings } from '../utils/settings';
+import { HapticPattern, vibrate } from './haptics';
+
+export type SoundEvent = 'pickup' | 'drop' | 'wrongDrop' | 'snap' | 'complete';
+
+// One synthesized blip; times are seconds from when the sound is played
+interface Tone {
+  freq: number;
+  to?: number; // glides here over the tone
+  wave?: OscillatorType; // defaults to sine
+  at?: number;
+  length: number;
+  gain: number;
+}
+
+export interface SoundTheme {
+  id: SoundThemeId;
+  name: string;
+  description: string;
+  drones: number[]; // held notes under the music, Hz
+  notes: number[]; // the ambient melody picks from these
+  wave: OscillatorType; // melody voice
+  noteLength: number; // seconds, including a soft attack
+  noteChance: number; // odds of a note on each melody tick
+  cutoff: number; // lowpass on the music, Hz; keeps it from squeaking
+  sounds: Record<SoundEvent, Tone[]>;
+}
+
+const C4 = 261.63, E4 = 329.63, G4 = 392.00, A4 = 440.00, C5 = 523.25;
+
+export const SOUND_THEMES: SoundTheme[] = [
+  {
+    id: 'calm',
+    name: 'Calm',
+    description: 'Soft drones and a slow pentatonic melody',
+    drones: [130.81, 164.81], // C3, E3
+    notes: [C4, E4, G4, A4, C5],
+    wave: 'sine',
+    noteLength: 3,
+    noteChance: 0.6,
+    cutoff: 800,
+    sounds: {
+      pickup: [{ freq: 440, to: 520, length: 0.06, gain: 0.03 }],
+      drop: [{ freq: 220, to: 160, length: 0.1, gain: 0.05 }],
+      wrongDrop: [{ freq: 196, length: 0.12, gain: 0.05 }, { freq: 174.61, at: 0.12, length: 0.2, gain: 0.05 }],
+      snap: [{ freq: 300, to: 100, length: 0.15, gain: 0.1 }],
+      complete: [C4, E4, G4, C5].map((freq, i) => ({ freq, at: i * 0.14, length: i === 3 ? 1.2 : 0.5, gain: 0.07 }))
+    }
+  },
+  {
+    id: 'musicBox',
+    name: 'Music box',
+    description: 'Bright chimes, no drones',
+    drones: [],
+    notes: [C5, 587.33, 659.25, 783.99, 880.00, 1046.50],
+    wave: 'triangle',
+    noteLength: 1.2,
+    noteChance: 0.8,
+    cutoff: 3000,
+    sounds: {
+      pickup: [{ freq: 1046.50, length: 0.05, gain: 0.025, wave: 'triangle' }],
+      drop: [{ freq: 659.25, length: 0.12, gain: 0.04, wave: 'triangle' }],
+      wrongDrop: [{ freq: 622.25, length: 0.1, gain: 0.04, wave: 'triangle' }, { freq: 587.33, at: 0.1, length: 0.2, gain: 0.04, wave: 'triangle' }],
+      snap: [{ freq: 1318.51, length: 0.2, gain: 0.06, wave: 'triangle' }],
+      complete: [C5, 659.25, 783.99, 1046.50, 1318.51].map((freq, i) => ({ freq, at: i * 0.1, length: 0.8, gain: 0.05, wave: 'triangle' as const }))
+    }
+  },
+  {
+    id: 'arcade',
+    name: 'Arcade',
+    description: 'Chiptune bleeps over a low hum',
+    drones: [65.41], // C2
+    notes: [C4, E4, G4, C5],
+    wave: 'square',
+    noteLength: 0.4,
+    noteChance: 0.5,
+    cutoff: 1500,
+    sounds: {
+      pickup: [{ freq: 660, length: 0.04, gain: 0.02, wave: 'square' }],
+      drop: [{ freq: 330, to: 220, length: 0.08, gain: 0.03, wave: 'square' }],
+      wrongDrop: [{ freq: 150, to: 90, length: 0.25, gain: 0.04, wave: 'sawtooth' }],
+      snap: [{ freq: 440, to: 880, length: 0.1, gain: 0.04, wave: 'square' }],
+      complete: [C4, E4, G4, C5, G4, C5].map((freq, i) => ({ freq, at: i * 0.09, length: 0.12, gain: 0.04, wave: 'square' as const }))
+    }
+  }
+];
+
+// How often the ambient melody may play a note
+const MELODY_INTERVAL = 4000;
+// Level of each drone before the music volume
+const DRONE_GAIN = 0.02;
+const NOTE_GAIN = 0.05;
+
+const HAPTICS: Partial<Record<SoundEvent, HapticPattern>> = {
+  snap: 'snap',
+  complete: 'complete'
+};
+
+// One audio graph for the whole app: music and effects buses feed a master gain used for muting
+let context: AudioContext | null = null;
+let master: GainNode | null = null;
+let musicBus: GainNode | null = null;
+let effectsBus: GainNode | null = null;
+let filter: BiquadFilterNode | null = null;
+let drones: OscillatorNode[] = [];
+let melodyTimer: number | null = null;
+let musicWanted = false;
+let settings: Settings = defaultSettings();
+
+const themeFor = (id: SoundThemeId) => SOUND_THEMES.find(t => t.id === id) ?? SOUND_THEMES[0];
+
+// Browsers only start audio from a user gesture, so the graph is built on the first one
+const ensureContext = () => {
+  if (!context) {
+    const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx = new AudioCtx();
+    master = ctx.createGain();
+    musicBus = ctx.createGain();
+    effectsBus = ctx.createGain();
+    filter = ctx.createBiquadFilter();
+
+    filter.type = 'lowpass';
+    filter.Q.setValueAtTime(1, ctx.currentTime);
+    master.gain.setValueAtTime(0, ctx.currentTime);
+
+    filter.connect(musicBus);
+    musicBus.connect(master);
+    effectsBus.connect(master);
+    master.connect(ctx.destination);
+    context = ctx;
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    applySettings(true);
+  }
+  if (context.state === 'suspended' && document.visibilityState === 'visible') {
+    context.resume().catch(error => console.error("Resuming audio failed:", error));
+  }
+  return context;
+};
+
+// Goes quiet in the background (switching apps, locking the phone) instead of droning on
+const handleVisibility = () => {
+  if (!context) return;
+  const task = document.visibilityState === 'hidden' ? context.suspend() : context.resume();
+  task.catch(error => console.error("Switching audio state failed:", error));
+};
+
+const unlockOnGesture = () => {
+  window.removeEventListener('pointerdown', unlockOnGesture);
+  window.removeEventListener('keydown', unlockOnGesture);
+  ensureContext();
+  if (musicWanted) startDrones();
+};
+
+const startDrones = () => {
+  if (!context || !filter || drones.length > 0) return;
+  const ctx = context;
+  drones = themeFor(settings.soundTheme).drones.map(freq => {
+    const osc = ctx.createOscillator();
+    const g = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(freq, ctx.currentTime);
+    g.gain.setValueAtTime(DRONE_GAIN, ctx.currentTime);
+    osc.connect(g);
+    g.connect(filter!);
+    osc.start();
+    return osc;
+  });
+};
+
+const stopDrones = () => {
+  drones.forEach(osc => {
+    try {
+      osc.stop();
+    } catch {
+      // Never started because the context was closed
+    }
+    osc.disconnect();
+  });
+  drones = [];
+};
+
+const playMelodyNote = () => {
+  const theme = themeFor(settings.soundTheme);
+  if (!context || !filter || context.state !== 'running' || Math.random() >= theme.noteChance) return;
+  const ctx = context;
+  const osc = ctx.createOscillator();
+  const g = ctx.createGain();
+  const t = ctx.currentTime;
+
+  osc.type = theme.wave;
+  osc.frequency.setValueAtTime(theme.notes[Math.floor(Math.random() * theme.notes.length)], t);
+  g.gain.setValueAtTime(0, t);
+  g.gain.linearRampToValueAtTime(NOTE_GAIN, t + theme.noteLength / 6); // Soft attack
+  g.gain.exponentialRampToValueAtTime(0.001, t + theme.noteLength); // Long decay
+
+  osc.connect(g);
+  g.connect(filter);
+  osc.start(t);
+  osc.stop(t + theme.noteLength + 0.1);
+};
+
+const applySettings = (immediate = false) => {
+  if (!context || !master || !musicBus || !effectsBus || !filter) return;
+  const t = context.currentTime;
+  // Unmuting fades in slowly so the music doesn't start with a jolt
+  master.gain.setTargetAtTime(settings.muted ? 0 : 1, t, settings.muted ? 0.2 : 1.0);
+  musicBus.gain.setTargetAtTime(settings.musicVolume, t, immediate ? 0.01 : 0.1);
+  effectsBus.gain.setTargetAtTime(settings.effectsVolume, t, immediate ? 0.01 : 0.1);
+  filter.frequency.setTargetAtTime(themeFor(settings.soundTheme).cutoff, t, 0.1);
+};
+
+/** Takes new player settings; a theme change swaps the drones of music already playing. */
+export const configureAudio = (next: Settings) => {
+  const themeChanged = next.soundTheme !== settings.soundTheme;
+  settings = next;
+  applySettings();
+  if (themeChanged && drones.length > 0) {
+    stopDrones();
+    startDrones();
+  }
+};
+
+/** Starts the ambient music, right away if audio is already running or on the next tap otherwise. */
+export const startMusic = () => {
+  musicWanted = true;
+  if (context) {
+    ensureContext();
+    startDrones();
+  } else {
+    window.addEventListener('pointerdown', unlockOnGesture);
+    window.addEventListener('keydown', unlockOnGesture);
+  }
+  if (melodyTimer === null) melodyTimer = window.setInterval(playMelodyNote, MELODY_INTERVAL);
+};
+
+export const stopMusic = () => {
+  musicWanted = false;
+  window.removeEventListener('pointerdown', unlockOnGesture);
+  window.removeEventListener('keydown', unlockOnGesture);
+  if (melodyTimer !== null) {
+    clearInterval(melodyTimer);
+    melodyTimer = null;
+  }
+  stopDrones();
+};
+
+/** Plays a game sound from the current theme, with a vibration for snaps and wins when haptics are on (even muted). */
+export const playSound = (event: SoundEvent) => {
+  const haptic = HAPTICS[event];
+  if (haptic && settings.haptics) vibrate(haptic);
+  if (settings.muted || settings.effectsVolume === 0) return;
+
+  const ctx = ensureContext();
+  const bus = effectsBus!;
+  themeFor(settings.soundTheme).sounds[event].forEach(tone => {
+    const osc = ctx.createOscillator();
+    const g = ctx.createGain();
+    const start = ctx.currentTime + (tone.at ?? 0);
+    const end = start + tone.length;
+
+    osc.type = tone.wave ?? 'sine';
+    osc.frequency.setValueAtTime(tone.freq, start);
+    if (tone.to) osc.frequency.exponentialRampToValueAtTime(tone.to, end);
+    g.gain.setValueAtTime(0, ctx.currentTime);
+    g.gain.setValueAtTime(tone.gain, start);
+    g.gain.exponentialRampToValueAtTime(0.001, end);
+
+    osc.connect(g);
+    g.connect(bus);
+    osc.start(start);
+    osc.stop(end);
+  });
+};
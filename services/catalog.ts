@@ -0,0 +1,143 @@
+
+import bundledCatalogFile from '../data/catalog.json';
+import { GalleryCategory, ImageAttribution, ImportedCatalog, PuzzleMetadata, UserCollection } from '../types';
+
+// Highest catalog format this build understands
+const CATALOG_VERSION = 1;
+// Longest side of photos stored in collections, and of their menu thumbnails
+const COLLECTION_IMAGE_SIZE = 2048;
+const THUMBNAIL_SIZE = 400;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown, what: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`The catalog is missing ${what}.`);
+  return value;
+};
+
+const parseAttribution = (value: unknown): ImageAttribution | undefined => {
+  if (!isObject(value) || typeof value.source !== 'string') return undefined;
+  return {
+    source: value.source,
+    author: typeof value.author === 'string' ? value.author : undefined,
+    url: typeof value.url === 'string' ? value.url : undefined
+  };
+};
+
+/**
+ * Validates a catalog file and turns it into galleries.
+ * Ids get `idPrefix` so imported catalogs can't collide with the bundled one or each other.
+ * Throws an Error whose message can be shown to the player.
+ */
+export const parseCatalog = (
+  data: unknown,
+  source: GalleryCategory['source'],
+  sourceId: string | null,
+  idPrefix = ''
+): { name: string; categories: GalleryCategory[] } => {
+  if (!isObject(data) || !Array.isArray(data.categories)) throw new Error("This file isn't a puzzle catalog.");
+  if (typeof data.version !== 'number' || data.version > CATALOG_VERSION) {
+    throw new Error('This catalog needs a newer version of the app.');
+  }
+
+  const categories = data.categories.map((raw, i): GalleryCategory => {
+    if (!isObject(raw) || !Array.isArray(raw.images)) throw new Error(`Category ${i + 1} has no images.`);
+    const id = idPrefix + text(raw.id, `an id for category ${i + 1}`);
+    const images = raw.images.map((image, j): PuzzleMetadata => {
+      if (!isObject(image)) throw new Error(`Image ${j + 1} in "${raw.title}" is malformed.`);
+      return {
+        id: idPrefix + text(image.id, `an id for image ${j + 1} in "${raw.title}"`),
+        url: text(image.url, `a url for image ${j + 1} in "${raw.title}"`),
+        title: typeof image.title === 'string' ? image.title : `Picture ${j + 1}`,
+        category: id,
+        thumbnail: typeof image.thumbnail === 'string' ? image.thumbnail : undefined,
+        attribution: parseAttribution(image.attribution)
+      };
+    });
+    return { id, title: text(raw.title, `a title for category ${i + 1}`), source, sourceId, images };
+  });
+
+  return { name: typeof data.name === 'string' ? data.name : 'Imported catalog', categories: categories.filter(c => c.images.length > 0) };
+};
+
+export const BUNDLED_CATEGORIES = parseCatalog(bundledCatalogFile, 'bundled', null).categories;
+
+// Every bundled picture in catalog order; the Daily Puzzle indexes into this, so only append to the catalog
+export const BUNDLED_IMAGES = BUNDLED_CATEGORIES.flatMap(c => c.images);
+
+const readText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(`${file.name} couldn't be read.`));
+  reader.readAsText(file);
+});
+
+export const importCatalogFile = async (file: File, id: string): Promise<ImportedCatalog> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readText(file));
+  } catch {
+    throw new Error(`${file.name} isn't valid JSON.`);
+  }
+  const { name, categories } = parseCatalog(data, 'imported', id, `${id}:`);
+  if (categories.length === 0) throw new Error(`${file.name} has no pictures.`);
+  return { id, name, categories, importedAt: Date.now() };
+};
+
+export const collectionCategory = (collection: UserCollection): GalleryCategory => ({
+  id: collection.id,
+  title: collection.title,
+  source: 'collection',
+  sourceId: collection.id,
+  images: collection.images
+});
+
+const loadFileImage = (file: File) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(img);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`${file.name} isn't a picture this device can open.`));
+  };
+  img.src = url;
+});
+
+// JPEG data URL no longer than `maxSize` on its longest side
+const resizeImage = (img: HTMLImageElement, maxSize: number, quality: number) => {
+  const k = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * k);
+  canvas.height = Math.round(img.naturalHeight * k);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * Turns picked photos into collection pictures, downscaled so a folder of camera shots stays storable.
+ * Files that aren't pictures are skipped; it only fails when none could be used.
+ */
+export const importPhotos = async (files: File[], collectionId: string): Promise<PuzzleMetadata[]> => {
+  const images: PuzzleMetadata[] = [];
+  for (const file of files) {
+    if (!file.type.startsWith('image/')) continue;
+    try {
+      const img = await loadFileImage(file);
+      images.push({
+        id: `${collectionId}:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        url: resizeImage(img, COLLECTION_IMAGE_SIZE, 0.9),
+        thumbnail: resizeImage(img, THUMBNAIL_SIZE, 0.8),
+        title: file.name.replace(/\.[^.]+$/, ''),
+        category: collectionId
+      });
+    } catch (error) {
+      console.error("Importing photo failed:", error);
+    }
+  }
+  if (images.length === 0) throw new Error(files.length === 1 ? `${files[0].name} couldn't be imported.` : 'None of those files could be imported.');
+  return images;
+};
@@ -0,0 +1,26 @@
+
+import { Capacitor } from '@capacitor/core';
+import { Haptics, ImpactStyle, NotificationType } from '@capacitor/haptics';
+
+export type HapticPattern = 'snap' | 'complete';
+
+// Browser fallback, in ms of vibration and pause
+const VIBRATION_PATTERNS: Record<HapticPattern, number[]> = {
+  snap: [15],
+  complete: [30, 60, 30, 60, 80]
+};
+
+/**
+ * Buzzes the device: through the Capacitor plugin in the Android app, through the
+ * Vibration API in browsers that have one, and not at all elsewhere.
+ */
+export const vibrate = (pattern: HapticPattern) => {
+  if (Capacitor.isNativePlatform()) {
+    const done = pattern === 'snap'
+      ? Haptics.impact({ style: ImpactStyle.Light })
+      : Haptics.notification({ type: NotificationType.Success });
+    done.catch(error => console.error("Haptic feedback failed:", error));
+    return;
+  }
+  if ('vibrate' in navigator) navigator.vibrate(VIBRATION_PATTERNS[pattern]);
+};
@@ -0,0 +1,121 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geminiProvider, ImageProvider, ImageResult, ImageSourceError, loadImage, mockAiProvider } from './imageProviders';
+
+const RESULT: ImageResult = { image: 'data:image/png;base64,AAAA', imageId: null, title: 'Test' };
+
+const provider = (fetchImage: ImageProvider<void>['fetchImage'], timeout = 1000): ImageProvider<void> => ({ name: 'Test source', timeout, fetchImage });
+
+// Waits for the abort signal and never answers on its own
+const hanging = provider((_, signal) => new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason))));
+
+// Just enough of a 2D canvas for the mock provider to paint on in Node
+const fakeCanvas = () => {
+  const gradient = { addColorStop: () => {} };
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ({ createLinearGradient: () => gradient, createRadialGradient: () => gradient, fillRect: () => {}, fillStyle: '' }),
+    toDataURL: () => `data:image/png;base64,${canvas.width}x${canvas.height}`
+  };
+  return canvas;
+};
+
+beforeEach(() => {
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('document', { createElement: fakeCanvas });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('loadImage', () => {
+  it('passes on what the provider returns', async () => {
+    await expect(loadImage(provider(async () => RESULT), undefined)).resolves.toEqual(RESULT);
+  });
+
+  it('gives up after the provider timeout', async () => {
+    vi.useFakeTimers();
+    const loading = expect(loadImage(hanging, undefined)).rejects.toMatchObject({
+      kind: 'timeout',
+      message: "Test source didn't answer within 1 seconds."
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    await loading;
+  });
+
+  it('stops waiting when cancelled, even on providers that ignore the signal', async () => {
+    const controller = new AbortController();
+    const deaf = provider(() => new Promise(() => {}));
+    const loading = expect(loadImage(deaf, undefined, controller.signal)).rejects.toMatchObject({ kind: 'cancelled' });
+    controller.abort();
+    await loading;
+  });
+
+  it('keeps provider errors meant for the player', async () => {
+    const failing = provider(async () => { throw new ImageSourceError('failed', 'That picture is gone.'); });
+    await expect(loadImage(failing, undefined)).rejects.toMatchObject({ kind: 'failed', message: 'That picture is gone.' });
+  });
+
+  it('turns unexpected errors into a generic failure', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = provider(async () => { throw new TypeError('boom'); });
+    const error = await loadImage(broken, undefined).catch(e => e);
+    expect(error).toBeInstanceOf(ImageSourceError);
+    expect(error).toMatchObject({ kind: 'failed', message: "Test source couldn't provide a picture." });
+  });
+});
+
+describe('aiProvider', () => {
+  // Chosen when the module loads, so each case stubs the setting and loads a fresh copy
+  const loadAiProvider = async (setting: string) => {
+    vi.stubEnv('AI_PROVIDER', setting);
+    vi.resetModules();
+    return import('./imageProviders');
+  };
+
+  it('is Gemini unless the mock is asked for', async () => {
+    const fresh = await loadAiProvider('');
+    expect(fresh.aiProvider).toBe(fresh.geminiProvider);
+  });
+
+  it('is the mock when asked for', async () => {
+    const fresh = await loadAiProvider('mock');
+    expect(fresh.aiProvider).toBe(fresh.mockAiProvider);
+  });
+
+  it('reports a missing Gemini key instead of making up a picture', async () => {
+    await expect(loadImage(geminiProvider, { prompt: 'a lighthouse', style: 'watercolor', aspectRatio: '4:3' }))
+      .rejects.toMatchObject({ kind: 'failed', message: 'No Gemini API key is configured.' });
+  });
+});
+
+describe('mockAiProvider', () => {
+  it('paints a picture in the requested shape, titled from the prompt', async () => {
+    vi.useFakeTimers();
+    const loading = loadImage(mockAiProvider, { prompt: '  a lighthouse at dusk ', style: 'watercolor', aspectRatio: '16:9' });
+    await vi.advanceTimersByTimeAsync(600);
+    await expect(loading).resolves.toEqual({ image: 'data:image/png;base64,1600x900', imageId: null, title: 'a lighthouse at dusk' });
+  });
+
+  it('shortens long prompts and names empty ones', async () => {
+    vi.useFakeTimers();
+    const long = loadImage(mockAiProvider, { prompt: 'a very long description of a lighthouse at dusk', style: 'watercolor', aspectRatio: '1:1' });
+    const empty = loadImage(mockAiProvider, { prompt: ' ', style: 'watercolor', aspectRatio: '1:1' });
+    await vi.advanceTimersByTimeAsync(600);
+    expect((await long).title).toBe('a very long description of a li…');
+    expect((await empty).title).toBe('AI Magic');
+  });
+
+  it('can be cancelled during its pause', async () => {
+    const controller = new AbortController();
+    const loading = expect(loadImage(mockAiProvider, { prompt: '', style: 'watercolor', aspectRatio: '1:1' }, controller.signal))
+      .rejects.toMatchObject({ kind: 'cancelled' });
+    controller.abort();
+    await loading;
+  });
+});
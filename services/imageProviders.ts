@@ -0,0 +1,176 @@
+
+import { GoogleGenAI } from '@google/genai';
+import { PuzzleMetadata } from '../types';
+import { createRng, randomSeed } from '../utils/random';
+import { buildArtPrompt, ratioValue } from '../utils/artStyles';
+
+// A picture ready to be cut into a puzzle
+export interface ImageResult {
+  image: string; // URL or data URL
+  imageId: string | null; // gallery id; null for uploads and new AI art
+  title: string;
+}
+
+// One place pictures come from: the gallery, the user's files or an AI backend
+export interface ImageProvider<T> {
+  name: string;
+  timeout: number; // ms before loadImage gives up
+  fetchImage: (input: T, signal: AbortSignal) => Promise<ImageResult>;
+}
+
+export type ImageSourceErrorKind = 'timeout' | 'cancelled' | 'failed';
+
+// Thrown by loadImage; the message is meant to be shown to the player
+export class ImageSourceError extends Error {
+  kind: ImageSourceErrorKind;
+
+  constructor(kind: ImageSourceErrorKind, message: string) {
+    super(message);
+    this.name = 'ImageSourceError';
+    this.kind = kind;
+  }
+}
+
+export interface AiImageRequest {
+  prompt: string; // the player's words; empty for a surprise
+  style: string; // ART_STYLES id
+  aspectRatio: string; // one of ASPECT_RATIOS
+}
+
+// Puzzle title for generated art: the start of the prompt
+const artTitle = (prompt: string) => {
+  const text = prompt.trim();
+  if (!text) return 'AI Magic';
+  return text.length > 32 ? `${text.slice(0, 31)}…` : text;
+};
+
+const whenAborted = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+  if (signal.aborted) reject(signal.reason);
+  signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+});
+
+/**
+ * Runs a provider with its timeout, cancellable through `signal`.
+ * Every failure comes out as an ImageSourceError.
+ */
+export const loadImage = async <T>(provider: ImageProvider<T>, input: T, signal?: AbortSignal): Promise<ImageResult> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, provider.timeout);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    // Racing the abort also stops waiting on work a provider can't interrupt
+    return await Promise.race([provider.fetchImage(input, controller.signal), whenAborted(controller.signal)]);
+  } catch (error) {
+    if (timedOut) throw new ImageSourceError('timeout', `${provider.name} didn't answer within ${Math.round(provider.timeout / 1000)} seconds.`);
+    if (controller.signal.aborted) throw new ImageSourceError('cancelled', 'Cancelled.');
+    if (error instanceof ImageSourceError) throw error;
+    console.error(`${provider.name} failed:`, error);
+    throw new ImageSourceError('failed', `${provider.name} couldn't provide a picture.`);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+// Preloads the picture so a broken link fails here rather than on an empty board
+export const galleryProvider: ImageProvider<PuzzleMetadata> = {
+  name: 'The gallery',
+  timeout: 20000,
+  fetchImage: (meta, signal) => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'Anonymous';
+    img.onload = () => resolve({ image: meta.url, imageId: meta.id, title: meta.title });
+    img.onerror = () => reject(new ImageSourceError('failed', `"${meta.title}" couldn't be downloaded.`));
+    signal.addEventListener('abort', () => { img.src = ''; }, { once: true });
+    img.src = meta.url;
+  })
+};
+
+export const uploadProvider: ImageProvider<File> = {
+  name: 'Your photo',
+  timeout: 30000,
+  fetchImage: (file, signal) => new Promise((resolve, reject) => {
+    if (!file.type.startsWith('image/')) {
+      reject(new ImageSourceError('failed', `${file.name} isn't a picture.`));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => resolve({ image: reader.result as string, imageId: null, title: 'My Photo' });
+    reader.onerror = () => reject(new ImageSourceError('failed', `${file.name} couldn't be read.`));
+    signal.addEventListener('abort', () => reader.abort(), { once: true });
+    reader.readAsDataURL(file);
+  })
+};
+
+// Gemini writes a scene description from the prompt, then paints it
+export const geminiProvider: ImageProvider<AiImageRequest> = {
+  name: 'Gemini',
+  timeout: 60000,
+  fetchImage: async ({ prompt, style, aspectRatio }, signal) => {
+    if (!process.env.API_KEY) throw new ImageSourceError('failed', 'No Gemini API key is configured.');
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `Describe a picture for a jigsaw puzzle in one vivid sentence: ${buildArtPrompt(prompt, style)}`,
+      config: { abortSignal: signal }
+    });
+
+    const text = response.text || "Fantasy Landscape";
+    const imgResponse = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: { parts: [{ text: `A beautiful puzzle art based on: ${text.substring(0, 300)}` }] },
+      config: { abortSignal: signal, imageConfig: { aspectRatio } }
+    });
+
+    // Find the image part, do not assume it is the first part.
+    const part = imgResponse.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+    if (!part?.inlineData) throw new ImageSourceError('failed', "Gemini answered without a picture. Try again.");
+    return { image: `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`, imageId: null, title: artTitle(prompt) };
+  }
+};
+
+// Offline stand-in for development and tests: paints random soft blobs after a short pause
+export const mockAiProvider: ImageProvider<AiImageRequest> = {
+  name: 'Mock AI',
+  timeout: 5000,
+  fetchImage: async ({ prompt, aspectRatio }, signal) => {
+    await Promise.race([new Promise(resolve => setTimeout(resolve, 600)), whenAborted(signal)]);
+    const random = createRng(randomSeed());
+    const canvas = document.createElement('canvas');
+    canvas.width = 1600;
+    canvas.height = Math.round(1600 / ratioValue(aspectRatio));
+    const ctx = canvas.getContext('2d')!;
+    const hue = random() * 360;
+    const background = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    background.addColorStop(0, `hsl(${hue}, 70%, 25%)`);
+    background.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 55%)`);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < 40; i++) {
+      const x = random() * canvas.width;
+      const y = random() * canvas.height;
+      const radius = 40 + random() * 220;
+      const blob = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      blob.addColorStop(0, `hsla(${(hue + random() * 180) % 360}, 80%, 65%, 0.9)`);
+      blob.addColorStop(1, `hsla(${hue}, 80%, 50%, 0)`);
+      ctx.fillStyle = blob;
+      ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    }
+    return { image: canvas.toDataURL('image/png'), imageId: null, title: artTitle(prompt) };
+  }
+};
+
+export const AI_PROVIDERS: Record<string, ImageProvider<AiImageRequest>> = {
+  gemini: geminiProvider,
+  mock: mockAiProvider
+};
+
+// AI_PROVIDER in .env.local picks the backend. Gemini is the default, so a build without a key reports
+// the missing key instead of passing placeholder blobs off as AI art; the mock is opt-in only.
+export const aiProvider: ImageProvider<AiImageRequest> = AI_PROVIDERS[process.env.AI_PROVIDER || ''] ?? geminiProvider;
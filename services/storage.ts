@@ -0,0 +1,161 @@
+
+import { AiArtwork, DailyResult, GameRecord, ImportedCatalog, SavedGame, Settings, UserCollection } from '../types';
+import { defaultSettings } from '../utils/settings';
+
+const DB_NAME = 'puzzle-master';
+const DB_VERSION = 6;
+const GAMES_STORE = 'games';
+const DAILY_STORE = 'daily';
+const RECORDS_STORE = 'records';
+const ARTWORK_STORE = 'artwork';
+const CATALOGS_STORE = 'catalogs';
+const COLLECTIONS_STORE = 'collections';
+const SETTINGS_STORE = 'settings';
+// The settings store holds a single record under this key
+const SETTINGS_KEY = 'player';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// IndexedDB instead of localStorage: uploaded and AI images are data URLs of several MB
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GAMES_STORE)) {
+          db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DAILY_STORE)) {
+          db.createObjectStore(DAILY_STORE, { keyPath: 'date' });
+        }
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+          db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ARTWORK_STORE)) {
+          db.createObjectStore(ARTWORK_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CATALOGS_STORE)) {
+          db.createObjectStore(CATALOGS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+          db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves once the transaction commits
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await getDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveGame = async (game: SavedGame): Promise<void> => {
+  await runRequest(GAMES_STORE, 'readwrite', store => store.put(game));
+};
+
+// Most recently played first
+export const loadGames = async (): Promise<SavedGame[]> => {
+  const games = await runRequest<SavedGame[]>(GAMES_STORE, 'readonly', store => store.getAll());
+  return games
+    .map(game => {
+      // Saves from before rows/cols grids stored a single square size
+      const difficulty = game.difficulty as SavedGame['difficulty'] | number;
+      return typeof difficulty === 'number' ? { ...game, difficulty: { rows: difficulty, cols: difficulty } } : game;
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteGame = async (id: string): Promise<void> => {
+  await runRequest(GAMES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveDailyResult = async (result: DailyResult): Promise<void> => {
+  await runRequest(DAILY_STORE, 'readwrite', store => store.put(result));
+};
+
+export const loadDailyResults = (): Promise<DailyResult[]> =>
+  runRequest<DailyResult[]>(DAILY_STORE, 'readonly', store => store.getAll());
+
+export const saveRecord = async (record: GameRecord): Promise<void> => {
+  await runRequest(RECORDS_STORE, 'readwrite', store => store.put(record));
+};
+
+// Oldest first
+export const loadRecords = async (): Promise<GameRecord[]> => {
+  const records = await runRequest<GameRecord[]>(RECORDS_STORE, 'readonly', store => store.getAll());
+  return records.sort((a, b) => a.completedAt - b.completedAt);
+};
+
+export const saveArtwork = async (artwork: AiArtwork): Promise<void> => {
+  await runRequest(ARTWORK_STORE, 'readwrite', store => store.put(artwork));
+};
+
+// Newest first
+export const loadArtwork = async (): Promise<AiArtwork[]> => {
+  const artwork = await runRequest<AiArtwork[]>(ARTWORK_STORE, 'readonly', store => store.getAll());
+  return artwork.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteArtwork = async (id: string): Promise<void> => {
+  await runRequest(ARTWORK_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveCatalog = async (catalog: ImportedCatalog): Promise<void> => {
+  await runRequest(CATALOGS_STORE, 'readwrite', store => store.put(catalog));
+};
+
+// In import order
+export const loadCatalogs = async (): Promise<ImportedCatalog[]> => {
+  const catalogs = await runRequest<ImportedCatalog[]>(CATALOGS_STORE, 'readonly', store => store.getAll());
+  return catalogs.sort((a, b) => a.importedAt - b.importedAt);
+};
+
+export const deleteCatalog = async (id: string): Promise<void> => {
+  await runRequest(CATALOGS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveCollection = async (collection: UserCollection): Promise<void> => {
+  await runRequest(COLLECTIONS_STORE, 'readwrite', store => store.put(collection));
+};
+
+// Oldest first
+export const loadCollections = async (): Promise<UserCollection[]> => {
+  const collections = await runRequest<UserCollection[]>(COLLECTIONS_STORE, 'readonly', store => store.getAll());
+  return collections.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteCollection = async (id: string): Promise<void> => {
+  await runRequest(COLLECTIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveSettings = async (settings: Settings): Promise<void> => {
+  await runRequest(SETTINGS_STORE, 'readwrite', store => store.put(settings, SETTINGS_KEY));
+};
+
+// Settings added in later versions fall back to their defaults
+export const loadSettings = async (): Promise<Settings> => {
+  const stored = await runRequest<Partial<Settings> | undefined>(SETTINGS_STORE, 'readonly', store => store.get(SETTINGS_KEY));
+  return { ...defaultSettings(), ...stored };
+};
@@ -1,21 +1,112 @@
 
-const CACHE_NAME = 'puzzle-master-v1';
-const ASSETS = [
-  '/',
-  '/index.html',
-  '/manifest.json'
-];
+// Both are rewritten at build time by the offline-precache plugin in vite.config.ts.
+// The dev server serves this file untouched, so these defaults only cover the HTML shell.
+const BUILD_VERSION = 'dev';
+const PRECACHE_URLS = ['./', 'index.html', 'manifest.json'];
+
+const CACHE_PREFIX = 'puzzle-master-';
+const PRECACHE = `${CACHE_PREFIX}app-${BUILD_VERSION}`;
+// Gallery pictures and CDN scripts outlive app versions
+const IMAGE_CACHE = `${CACHE_PREFIX}images`;
+const CDN_CACHE = `${CACHE_PREFIX}cdn`;
+// Oldest pictures are evicted beyond this; opaque responses don't report a usable size, so entries are counted
+const MAX_IMAGE_ENTRIES = 80;
 
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
+    caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS))
+  );
+});
+
+// Drops caches from earlier builds, including the original fixed `puzzle-master-v1`
+self.addEventListener('activate', (event) => {
+  const current = [PRECACHE, IMAGE_CACHE, CDN_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && !current.includes(name))
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
   );
 });
 
+// Cache keys are insertion-ordered, so the first ones are the oldest
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+// Menus load pictures without CORS; asking for CORS anyway keeps the cached copy usable by the board's canvas
+const fetchImage = async (request) => {
+  if (new URL(request.url).origin === self.location.origin) return fetch(request);
+  try {
+    return await fetch(new Request(request.url, { mode: 'cors', credentials: 'omit' }));
+  } catch {
+    return fetch(request);
+  }
+};
+
+const cacheFirstImage = async (request) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+  const response = await fetchImage(request);
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request.url, response.clone());
+    trimCache(IMAGE_CACHE, MAX_IMAGE_ENTRIES);
+  }
+  return response;
+};
+
+// Serves the cached copy straight away and refreshes it in the background
+const staleWhileRevalidate = async (request, name) => {
+  const cache = await caches.open(name);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+};
+
+// Pages come from the network when possible so a new build is picked up, and from the app shell offline
+const networkFirstPage = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(PRECACHE);
+    return (await cache.match(request)) || (await cache.match('index.html')) || Response.error();
+  }
+};
+
 self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI requests and uploads are POSTs and must never be answered from a cache
+  if (request.method !== 'GET' || !request.url.startsWith('http')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+  if (request.destination === 'image') {
+    event.respondWith(cacheFirstImage(request));
+    return;
+  }
+
+  const sameOrigin = new URL(request.url).origin === self.location.origin;
   event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request);
+    caches.match(request).then((cached) => {
+      if (cached) return cached;
+      // Tailwind and other CDN scripts the page pulls in at runtime
+      return sameOrigin ? fetch(request) : staleWhileRevalidate(request, CDN_CACHE);
     })
   );
 });
@@ -1,4 +1,16 @@
 
+// -1 is a blank cut into the piece, 0 a flat border edge, 1 a tab sticking out
+export type EdgeType = -1 | 0 | 1;
+
+export interface PieceEdges {
+  top: EdgeType;
+  right: EdgeType;
+  bottom: EdgeType;
+  left: EdgeType;
+}
+
+export type PieceRotation = 0 | 90 | 180 | 270;
+
 export interface Piece {
   id: number;
   row: number;
@@ -9,28 +21,177 @@ export interface Piece {
   targetY: number;
   isLocked: boolean;
   zIndex: number;
+  edges: PieceEdges;
+  groupId: number; // pieces snapped together share a group and move as one
+  rotation: PieceRotation; // degrees clockwise; only upright pieces snap or lock
+  inTray: boolean; // waiting in the piece tray rather than lying on the canvas
+}
+
+// Grid the image is cut into; rows and columns differ for non-square images
+export interface Difficulty {
+  rows: number;
+  cols: number;
 }
 
-export enum Difficulty {
-  EASY = 3, // 3x3
-  MEDIUM = 4, // 4x4
-  HARD = 6, // 6x6
-  EXPERT = 8 // 8x8
+// classic: open-ended stopwatch; timeAttack: beat a countdown; moveLimit: finish within par; zen: no clock, no score
+export type GameMode = 'classic' | 'timeAttack' | 'moveLimit' | 'zen';
+
+// jigsaw: cut pieces dragged into place; sliding: square-cut tiles shuffled around one gap
+export type PuzzleType = 'jigsaw' | 'sliding';
+
+export interface ImageAttribution {
+  author?: string;
+  source: string; // e.g. "Unsplash"
+  url?: string; // where credit links to
 }
 
 export interface PuzzleMetadata {
   id: string;
   url: string;
   title: string;
-  category: string;
+  category: string; // GalleryCategory id
+  thumbnail?: string; // smaller picture for menus; falls back to url
+  attribution?: ImageAttribution;
+}
+
+// One gallery shown in the menus, whichever catalog or collection it came from
+export interface GalleryCategory {
+  id: string;
+  title: string;
+  source: 'bundled' | 'imported' | 'collection';
+  sourceId: string | null; // ImportedCatalog or UserCollection id
+  images: PuzzleMetadata[];
+}
+
+// A catalog file the player imported, kept so its galleries survive restarts
+export interface ImportedCatalog {
+  id: string;
+  name: string;
+  categories: GalleryCategory[];
+  importedAt: number;
+}
+
+// Photos the player grouped into their own gallery; images are data URLs stored locally
+export interface UserCollection {
+  id: string;
+  title: string;
+  images: PuzzleMetadata[];
+  createdAt: number;
+}
+
+// A piece as persisted: positions are in board-relative units (0..1 spans the board)
+// so a saved game can be restored on any screen size
+export interface SavedPiece {
+  id: number;
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+  isLocked: boolean;
+  zIndex: number;
+  edges: PieceEdges;
+  groupId: number;
+  rotation?: PieceRotation;
+  inTray?: boolean;
+}
+
+export interface SavedGame {
+  id: string;
+  imageId?: string | null;
+  title: string;
+  image: string;
+  difficulty: Difficulty;
+  pieces: SavedPiece[];
+  moves: number;
+  hints: number;
+  peeks?: number;
+  seed: number;
+  dailyDate?: string | null;
+  rotationMode?: boolean;
+  mode?: GameMode; // games saved before modes existed are classic
+  limit?: number | null;
+  puzzleType?: PuzzleType; // games saved before sliding puzzles existed are jigsaws
+  tiles?: number[]; // sliding puzzles: tile in each cell, row by row; pieces is empty
+  elapsedTime: number; // seconds
+  updatedAt: number;
 }
 
 export interface GameState {
+  gameId: string | null;
+  imageId: string | null; // gallery or saved artwork id; null for uploads
+  title: string;
   image: string | null;
   difficulty: Difficulty;
   pieces: Piece[];
   isSolved: boolean;
   moves: number;
+  hints: number;
+  peeks: number;
+  seed: number; // drives piece shapes and the scatter, so a game can be reproduced
+  dailyDate: string | null; // YYYY-MM-DD when playing that day's Daily Puzzle
+  rotationMode: boolean; // pieces are dealt turned and must be rotated upright
+  mode: GameMode;
+  limit: number | null; // seconds in time attack, moves in move limit
+  isFailed: boolean; // ran out of time or moves
+  puzzleType: PuzzleType;
   startTime: number | null;
   currentTime: number;
+  savedPieces: SavedPiece[] | null; // latest layout reported by the board, restored on resume
+  savedTiles: number[] | null; // the same for a sliding puzzle
+}
+
+export interface DailyResult {
+  date: string; // YYYY-MM-DD
+  time: number;
+  moves: number;
+  completedAt: number;
+}
+
+// One completed game, kept for personal bests and statistics
+export interface GameRecord {
+  id: string;
+  imageId: string | null;
+  title: string;
+  difficulty: Difficulty;
+  time: number; // seconds
+  moves: number;
+  hints: number;
+  peeks: number;
+  mode?: GameMode; // missing on records from before modes, which were classic
+  puzzleType?: PuzzleType; // missing on jigsaw records
+  rotationMode?: boolean; // pieces were dealt turned; missing on records from before this was kept
+  completedAt: number;
+}
+
+// A picture generated by the AI, kept for the "My AI Art" gallery
+export interface AiArtwork {
+  id: string;
+  prompt: string;
+  style: string; // ART_STYLES id
+  aspectRatio: string; // e.g. "16:9"
+  image: string; // data URL
+  createdAt: number;
+}
+
+export type SoundThemeId = 'calm' | 'musicBox' | 'arcade';
+export type SnapStrictness = 'relaxed' | 'normal' | 'strict';
+export type BoardSize = 'compact' | 'normal' | 'large';
+export type BoardBackground = 'midnight' | 'felt' | 'wood' | 'paper';
+export type GridLines = 'hidden' | 'subtle' | 'visible';
+
+// Player preferences, kept across sessions
+export interface Settings {
+  soundTheme: SoundThemeId;
+  musicVolume: number; // 0..1
+  effectsVolume: number; // 0..1
+  muted: boolean; // silences both without losing the volumes
+  haptics: boolean; // vibrate on snaps (Android)
+  snapStrictness: SnapStrictness;
+  boardSize: BoardSize; // share of the play area the finished picture takes
+  background: BoardBackground;
+  gridLines: GridLines;
+  effects: boolean; // snap ripples, particles and pulsing hints; off for reduced motion
+  previewOpacity: number; // 0..1, strength of the ghost picture while the preview is on
+  highContrast: boolean;
+  defaultPieceCount: number; // PIECE_COUNT_PRESETS entry offered first for a new puzzle
 }
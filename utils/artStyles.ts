@@ -0,0 +1,34 @@
+
+export interface ArtStyle {
+  id: string;
+  label: string;
+  prompt: string; // appended to the player's prompt
+}
+
+export const ART_STYLES: ArtStyle[] = [
+  { id: 'cinematic', label: 'Cinematic', prompt: 'cinematic painting, dramatic light, vibrant colors, 4k detail' },
+  { id: 'watercolour', label: 'Watercolour', prompt: 'soft watercolour painting on textured paper, gentle washes of colour' },
+  { id: 'pixel', label: 'Pixel Art', prompt: 'detailed 16-bit pixel art, crisp pixels, rich palette' },
+  { id: 'photo', label: 'Photo', prompt: 'photorealistic photograph, natural light, sharp focus, high detail' },
+  { id: 'oil', label: 'Oil Painting', prompt: 'impressionist oil painting, visible brush strokes, warm palette' },
+  { id: 'anime', label: 'Anime', prompt: 'anime illustration, clean line art, bright cel shading' },
+  { id: 'lowpoly', label: 'Low Poly', prompt: 'low poly 3D render, faceted shapes, pastel gradients' },
+];
+
+// Ratios the image model supports, widest first
+export const ASPECT_RATIOS = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+export const DEFAULT_ART_PROMPT = 'A sweeping fantasy landscape';
+
+export const artStyleLabel = (id: string) => ART_STYLES.find(s => s.id === id)?.label ?? id;
+
+// "16:9" -> 16 / 9
+export const ratioValue = (ratio: string) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w && h ? w / h : 1;
+};
+
+export const buildArtPrompt = (prompt: string, styleId: string) => {
+  const style = ART_STYLES.find(s => s.id === styleId);
+  return [prompt.trim() || DEFAULT_ART_PROMPT, style?.prompt].filter(Boolean).join(', ');
+};
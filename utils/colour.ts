@@ -0,0 +1,69 @@
+
+export interface PieceColour {
+  css: string;
+  bucket: number;
+}
+
+// Six hue sectors (red, yellow, green, cyan, blue, magenta) plus dark and light greys
+export const COLOUR_BUCKETS = 8;
+const DARK_BUCKET = 6;
+const LIGHT_BUCKET = 7;
+
+// Pixels sampled along each side of a piece
+const SAMPLES = 8;
+
+const bucketOf = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 510;
+  const chroma = (max - min) / 255;
+  if (chroma < 0.12) return lightness < 0.5 ? DARK_BUCKET : LIGHT_BUCKET;
+
+  let hue;
+  if (max === r) hue = ((g - b) / (max - min) + 6) % 6;
+  else if (max === g) hue = (b - r) / (max - min) + 2;
+  else hue = (r - g) / (max - min) + 4;
+  return Math.floor(hue + 0.5) % 6;
+};
+
+/**
+ * Finds the dominant colour of every cell of a rows x cols grid over the image:
+ * the most common colour bucket among sampled pixels, and the average of those pixels.
+ * Indexed by row * cols + col. Returns null when the pixels can't be read (CORS).
+ */
+export const samplePieceColours = (img: HTMLImageElement, rows: number, cols: number): PieceColour[] | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = cols * SAMPLES;
+  canvas.height = rows * SAMPLES;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  let data: Uint8ClampedArray;
+  try {
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  } catch {
+    return null;
+  }
+
+  const colours: PieceColour[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const sums = Array.from({ length: COLOUR_BUCKETS }, () => ({ n: 0, r: 0, g: 0, b: 0 }));
+      for (let y = r * SAMPLES; y < (r + 1) * SAMPLES; y++) {
+        for (let x = c * SAMPLES; x < (c + 1) * SAMPLES; x++) {
+          const i = (y * canvas.width + x) * 4;
+          const sum = sums[bucketOf(data[i], data[i + 1], data[i + 2])];
+          sum.n++;
+          sum.r += data[i];
+          sum.g += data[i + 1];
+          sum.b += data[i + 2];
+        }
+      }
+      const bucket = sums.reduce((best, sum, i) => sum.n > sums[best].n ? i : best, 0);
+      const { n, r: sr, g: sg, b: sb } = sums[bucket];
+      colours.push({ css: `rgb(${Math.round(sr / n)}, ${Math.round(sg / n)}, ${Math.round(sb / n)})`, bucket });
+    }
+  }
+  return colours;
+};
@@ -0,0 +1,32 @@
+
+import { Difficulty } from '../types';
+import { hashString } from './random';
+
+// Fixed so the daily layout does not depend on the device or the image's loaded size
+export const DAILY_GRID: Difficulty = { rows: 6, cols: 8 };
+
+// Local calendar date as YYYY-MM-DD
+export const dateKey = (date: Date = new Date()) => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const dailySeed = (key: string) => hashString(`daily:${key}`);
+
+/**
+ * Counts consecutive completed days ending today, or yesterday when today's
+ * puzzle is still open so the streak isn't shown as broken before it is.
+ */
+export const computeStreak = (completedDates: string[], today: Date = new Date()) => {
+  const completed = new Set(completedDates);
+  const day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  if (!completed.has(dateKey(day))) day.setDate(day.getDate() - 1);
+
+  let streak = 0;
+  while (completed.has(dateKey(day))) {
+    streak++;
+    day.setDate(day.getDate() - 1);
+  }
+  return streak;
+};
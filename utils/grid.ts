@@ -0,0 +1,19 @@
+
+import { Difficulty } from '../types';
+
+export const MIN_GRID_SIZE = 2;
+export const MAX_GRID_SIZE = 30;
+
+const clampGridSize = (n: number) => Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(n)));
+
+/**
+ * Chooses rows and columns for roughly `pieceCount` pieces so that each piece
+ * comes out close to square for an image of the given width/height ratio.
+ */
+export const gridForPieceCount = (pieceCount: number, imageAspect: number): Difficulty => {
+  const cols = clampGridSize(Math.sqrt(pieceCount * imageAspect));
+  const rows = clampGridSize(pieceCount / cols);
+  return { rows, cols };
+};
+
+export const formatGrid = ({ rows, cols }: Difficulty) => `${cols}x${rows}`;
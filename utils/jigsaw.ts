@@ -0,0 +1,183 @@
+
+import { EdgeType, PieceEdges } from '../types';
+
+// How far a tab reaches beyond the piece body, relative to the shorter piece side
+export const TAB_DEPTH = 0.26;
+
+// Bezier control points of a single tab in units of the shorter piece side,
+// measured from the middle of the edge (u along the edge, v outwards)
+const TAB_CURVES: [number, number, number, number, number, number][] = [
+  [-0.06, 0, -0.04, 0.06, -0.08, 0.12],
+  [-0.14, 0.2, -0.08, TAB_DEPTH, 0, TAB_DEPTH],
+  [0.08, TAB_DEPTH, 0.14, 0.2, 0.08, 0.12],
+  [0.04, 0.06, 0.06, 0, 0.12, 0],
+];
+
+/**
+ * Randomly assigns a tab or blank to every interior edge of a rows x cols grid.
+ * Neighbouring pieces always get opposite values so their outlines interlock.
+ */
+export const generateEdges = (rows: number, cols: number, random: () => number = Math.random): PieceEdges[][] => {
+  const edges: PieceEdges[][] = [];
+  for (let r = 0; r < rows; r++) {
+    edges.push([]);
+    for (let c = 0; c < cols; c++) {
+      const top: EdgeType = r === 0 ? 0 : (-edges[r - 1][c].bottom as EdgeType);
+      const left: EdgeType = c === 0 ? 0 : (-edges[r][c - 1].right as EdgeType);
+      const right: EdgeType = c === cols - 1 ? 0 : random() > 0.5 ? 1 : -1;
+      const bottom: EdgeType = r === rows - 1 ? 0 : random() > 0.5 ? 1 : -1;
+      edges[r].push({ top, right, bottom, left });
+    }
+  }
+  return edges;
+};
+
+// Traces one side from (x0, y0) to (x1, y1); the outward normal is the edge direction rotated left
+const traceEdge = (path: Path2D, x0: number, y0: number, x1: number, y1: number, type: EdgeType, size: number) => {
+  if (type === 0) {
+    path.lineTo(x1, y1);
+    return;
+  }
+  const len = Math.hypot(x1 - x0, y1 - y0);
+  const dx = (x1 - x0) / len;
+  const dy = (y1 - y0) / len;
+  const nx = dy * type;
+  const ny = -dx * type;
+  const mx = (x0 + x1) / 2;
+  const my = (y0 + y1) / 2;
+  const pt = (u: number, v: number): [number, number] => [
+    mx + (dx * u + nx * v) * size,
+    my + (dy * u + ny * v) * size,
+  ];
+
+  path.lineTo(...pt(-0.12, 0));
+  TAB_CURVES.forEach(([u1, v1, u2, v2, u3, v3]) => {
+    path.bezierCurveTo(...pt(u1, v1), ...pt(u2, v2), ...pt(u3, v3));
+  });
+  path.lineTo(x1, y1);
+};
+
+/**
+ * Builds the closed outline of a piece whose body occupies (x, y, w, h).
+ * Tabs bulge outside that box and blanks cut into it.
+ */
+export const createPiecePath = (x: number, y: number, w: number, h: number, edges: PieceEdges): Path2D => {
+  const size = Math.min(w, h);
+  const path = new Path2D();
+  path.moveTo(x, y);
+  traceEdge(path, x, y, x + w, y, edges.top, size);
+  traceEdge(path, x + w, y, x + w, y + h, edges.right, size);
+  traceEdge(path, x + w, y + h, x, y + h, edges.bottom, size);
+  traceEdge(path, x, y + h, x, y, edges.left, size);
+  path.closePath();
+  return path;
+};
+
+// Longest side of a tray thumbnail's body, in CSS pixels
+const THUMBNAIL_SIZE = 56;
+
+/**
+ * Renders a single upright piece, tabs included, to a PNG data URL for the piece tray.
+ * Returns an empty string when the image can't be exported (cross-origin without CORS).
+ */
+export const renderPieceThumbnail = (
+  img: HTMLImageElement,
+  row: number,
+  col: number,
+  rows: number,
+  cols: number,
+  edges: PieceEdges
+): string => {
+  const pieceAspect = (img.width / cols) / (img.height / rows);
+  const w = pieceAspect >= 1 ? THUMBNAIL_SIZE : THUMBNAIL_SIZE * pieceAspect;
+  const h = pieceAspect >= 1 ? THUMBNAIL_SIZE / pieceAspect : THUMBNAIL_SIZE;
+  const bleed = Math.min(w, h) * TAB_DEPTH;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(w + bleed * 2);
+  canvas.height = Math.ceil(h + bleed * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.clip(createPiecePath(bleed, bleed, w, h, edges));
+  ctx.drawImage(img, bleed - col * w, bleed - row * h, cols * w, rows * h);
+  try {
+    return canvas.toDataURL();
+  } catch {
+    return '';
+  }
+};
+
+export type PieceBitmap = ImageBitmap | HTMLCanvasElement;
+export type Surface = OffscreenCanvas | HTMLCanvasElement;
+
+export interface PieceBitmapStyle {
+  shadow?: { color: string; blur: number; offsetY: number }; // in board units
+  strokes?: { color: string; width: number }[]; // drawn over the picture in order, widths in board units
+}
+
+// Off-DOM drawing surface; a plain canvas where OffscreenCanvas is missing
+export const createSurface = (width: number, height: number): Surface => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Pre-renders a piece, clipped to its outline, so the board can blit it instead of
+ * re-slicing the full image every frame. The bitmap covers the body of size (pw, ph)
+ * plus `pad` board units on every side, at `resolution` pixels per board unit.
+ */
+export const renderPieceBitmap = (
+  img: HTMLImageElement,
+  row: number,
+  col: number,
+  rows: number,
+  cols: number,
+  edges: PieceEdges,
+  pw: number,
+  ph: number,
+  pad: number,
+  resolution: number,
+  style: PieceBitmapStyle = {}
+): PieceBitmap => {
+  const surface = createSurface(Math.ceil((pw + pad * 2) * resolution), Math.ceil((ph + pad * 2) * resolution));
+  const ctx = surface.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  ctx.scale(resolution, resolution);
+  ctx.translate(pad, pad);
+  const path = createPiecePath(0, 0, pw, ph, edges);
+
+  // Shadow follows the outline: cast it from a filled silhouette before clipping.
+  // Shadow sizes ignore the transform, hence the explicit resolution.
+  if (style.shadow) {
+    ctx.save();
+    ctx.shadowColor = style.shadow.color;
+    ctx.shadowBlur = style.shadow.blur * resolution;
+    ctx.shadowOffsetY = style.shadow.offsetY * resolution;
+    ctx.fillStyle = '#000';
+    ctx.fill(path);
+    ctx.restore();
+  }
+
+  // Board-space rectangle of the slice including the tab bleed, kept inside the image
+  const bleed = Math.min(pw, ph) * TAB_DEPTH;
+  const scaleX = img.width / (cols * pw);
+  const scaleY = img.height / (rows * ph);
+  const bx = Math.max(0, col * pw - bleed);
+  const by = Math.max(0, row * ph - bleed);
+  const bw = Math.min(cols * pw, (col + 1) * pw + bleed) - bx;
+  const bh = Math.min(rows * ph, (row + 1) * ph + bleed) - by;
+  ctx.save();
+  ctx.clip(path);
+  ctx.drawImage(img, bx * scaleX, by * scaleY, bw * scaleX, bh * scaleY, bx - col * pw, by - row * ph, bw, bh);
+  ctx.restore();
+
+  style.strokes?.forEach(({ color, width }) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width;
+    ctx.stroke(path);
+  });
+  return surface instanceof HTMLCanvasElement ? surface : surface.transferToImageBitmap();
+};
@@ -0,0 +1,45 @@
+
+import { describe, expect, it } from 'vitest';
+import { modeLimit, modesFor } from './modes';
+
+const grid = (rows: number, cols: number) => ({ rows, cols });
+
+describe('modeLimit', () => {
+  it('gives classic and zen no limit', () => {
+    expect(modeLimit('classic', grid(4, 6), false)).toBeNull();
+    expect(modeLimit('zen', grid(4, 6), true)).toBeNull();
+  });
+
+  it('allows ten seconds a piece in time attack, rounded up to whole minutes', () => {
+    expect(modeLimit('timeAttack', grid(4, 6), false)).toBe(240);
+    expect(modeLimit('timeAttack', grid(5, 5), false)).toBe(300);
+  });
+
+  it('never counts down from less than two minutes', () => {
+    expect(modeLimit('timeAttack', grid(2, 2), false)).toBe(120);
+  });
+
+  it('gives rotated pieces half as much time again', () => {
+    expect(modeLimit('timeAttack', grid(4, 6), true)).toBe(360);
+  });
+
+  it('sets par at one move a piece plus half as many again', () => {
+    expect(modeLimit('moveLimit', grid(10, 10), false)).toBe(150);
+    expect(modeLimit('moveLimit', grid(4, 6), false)).toBe(36);
+  });
+
+  it('keeps at least ten spare moves on small puzzles', () => {
+    expect(modeLimit('moveLimit', grid(2, 2), false)).toBe(14);
+  });
+
+  it('allows one more move a piece for turning rotated pieces', () => {
+    expect(modeLimit('moveLimit', grid(4, 6), true)).toBe(60);
+  });
+});
+
+describe('modesFor', () => {
+  it('offers sliding puzzles only the modes without a limit', () => {
+    expect(modesFor('jigsaw').map(m => m.id)).toEqual(['classic', 'timeAttack', 'moveLimit', 'zen']);
+    expect(modesFor('sliding').map(m => m.id)).toEqual(['classic', 'zen']);
+  });
+});
@@ -0,0 +1,47 @@
+
+import { Difficulty, GameMode, PuzzleType } from '../types';
+
+export const GAME_MODES: { id: GameMode; label: string; description: string }[] = [
+  { id: 'classic', label: 'Classic', description: 'Take your time; the stopwatch and move count make your records' },
+  { id: 'timeAttack', label: 'Time attack', description: 'Finish before the countdown runs out' },
+  { id: 'moveLimit', label: 'Move limit', description: 'Finish within par; undo is off' },
+  { id: 'zen', label: 'Zen', description: 'No clock, no counter, no score' }
+];
+
+export const modeLabel = (mode: GameMode) => GAME_MODES.find(m => m.id === mode)?.label ?? 'Classic';
+
+export const PUZZLE_TYPES: { id: PuzzleType; label: string; description: string }[] = [
+  { id: 'jigsaw', label: 'Jigsaw', description: 'Drag the cut pieces into place' },
+  { id: 'sliding', label: 'Sliding', description: 'Slide the tiles around the gap until the picture is whole' }
+];
+
+// Sliding puzzles are cut into an equal number of rows and columns
+export const SLIDING_PRESETS = [
+  { l: 'Easy', size: 3 },
+  { l: 'Medium', size: 4 },
+  { l: 'Hard', size: 5 },
+  { l: 'Expert', size: 6 },
+];
+
+// The countdown and par below are tuned for jigsaws, so sliding puzzles are played open-ended or zen
+export const modesFor = (type: PuzzleType) =>
+  type === 'sliding' ? GAME_MODES.filter(m => m.id === 'classic' || m.id === 'zen') : GAME_MODES;
+
+// Time attack allows this much per piece, rounded up to whole minutes, and never less than the minimum
+const SECONDS_PER_PIECE = 10;
+const MIN_TIME_LIMIT = 120;
+// Move limit: one drag per piece plus this much slack, and one more per piece when they must be turned
+const MOVE_SLACK = 0.5;
+const MIN_MOVE_SLACK = 10;
+
+/** The countdown (seconds) or par (moves) for a mode; null for modes without one. */
+export const modeLimit = (mode: GameMode, { rows, cols }: Difficulty, rotationMode: boolean): number | null => {
+  const pieces = rows * cols;
+  if (mode === 'timeAttack') {
+    return Math.max(MIN_TIME_LIMIT, Math.ceil(pieces * SECONDS_PER_PIECE * (rotationMode ? 1.5 : 1) / 60) * 60);
+  }
+  if (mode === 'moveLimit') {
+    return pieces + Math.max(MIN_MOVE_SLACK, Math.ceil(pieces * MOVE_SLACK)) + (rotationMode ? pieces : 0);
+  }
+  return null;
+};
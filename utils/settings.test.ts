@@ -0,0 +1,36 @@
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BOARD_FILL, SNAP_TOLERANCE } from '../engine/puzzleEngine';
+import { boardFill, defaultSettings, snapTolerance } from './settings';
+
+const prefersReducedMotion = (reduce: boolean) =>
+  vi.stubGlobal('window', { matchMedia: (query: string) => ({ matches: reduce && query === '(prefers-reduced-motion: reduce)' }) });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('defaultSettings', () => {
+  it('turns effects off for players who prefer reduced motion', () => {
+    prefersReducedMotion(true);
+    expect(defaultSettings().effects).toBe(false);
+    prefersReducedMotion(false);
+    expect(defaultSettings().effects).toBe(true);
+  });
+
+  it('snaps and sizes the board like the engine defaults', () => {
+    prefersReducedMotion(false);
+    const settings = defaultSettings();
+    expect(snapTolerance(settings)).toBe(SNAP_TOLERANCE);
+    expect(boardFill(settings)).toBe(BOARD_FILL);
+  });
+});
+
+describe('snapTolerance / boardFill', () => {
+  it('follows the chosen presets', () => {
+    prefersReducedMotion(false);
+    const settings = { ...defaultSettings(), snapStrictness: 'strict' as const, boardSize: 'compact' as const };
+    expect(snapTolerance(settings)).toBeLessThan(SNAP_TOLERANCE);
+    expect(boardFill(settings)).toBeLessThan(BOARD_FILL);
+  });
+});
@@ -0,0 +1,73 @@
+
+import { BoardBackground, BoardSize, GridLines, Settings, SnapStrictness } from '../types';
+import { BOARD_FILL, SNAP_TOLERANCE } from '../engine/puzzleEngine';
+
+export const PIECE_COUNT_PRESETS = [
+  { l: 'Easy', count: 24 },
+  { l: 'Medium', count: 48 },
+  { l: 'Hard', count: 100 },
+  { l: 'Expert', count: 300 },
+];
+
+// How close a piece must land to lock or join, as a share of the piece width
+export const SNAP_STRICTNESS: { id: SnapStrictness; label: string; tolerance: number }[] = [
+  { id: 'relaxed', label: 'Relaxed', tolerance: 0.35 },
+  { id: 'normal', label: 'Normal', tolerance: SNAP_TOLERANCE },
+  { id: 'strict', label: 'Strict', tolerance: 0.15 }
+];
+
+export const BOARD_SIZES: { id: BoardSize; label: string; fill: number }[] = [
+  { id: 'compact', label: 'Compact', fill: 0.7 },
+  { id: 'normal', label: 'Normal', fill: BOARD_FILL },
+  { id: 'large', label: 'Large', fill: 0.95 }
+];
+
+// `light` backgrounds get dark grid lines
+export const BOARD_BACKGROUNDS: { id: BoardBackground; label: string; css: string; light: boolean }[] = [
+  { id: 'midnight', label: 'Midnight', css: '#020617', light: false },
+  { id: 'felt', label: 'Felt', css: 'radial-gradient(circle at 50% 40%, #1f6140 0%, #0d3321 100%)', light: false },
+  {
+    id: 'wood',
+    label: 'Wood',
+    css: 'repeating-linear-gradient(92deg, rgba(0,0,0,0.08) 0 2px, transparent 2px 14px), linear-gradient(180deg, #5b3a22, #3f2716)',
+    light: false
+  },
+  { id: 'paper', label: 'Paper', css: 'radial-gradient(circle at 50% 40%, #f1f5f9 0%, #cbd5e1 100%)', light: true }
+];
+
+// Line opacity for each grid setting
+export const GRID_LINES: { id: GridLines; label: string; alpha: number }[] = [
+  { id: 'hidden', label: 'Hidden', alpha: 0 },
+  { id: 'subtle', label: 'Subtle', alpha: 0.02 },
+  { id: 'visible', label: 'Visible', alpha: 0.2 }
+];
+
+// Built on demand rather than at import, so the module loads where there is no window (the Node tests);
+// effects start off for players who ask their system for reduced motion
+export const defaultSettings = (): Settings => ({
+  soundTheme: 'calm',
+  musicVolume: 0.6,
+  effectsVolume: 0.8,
+  muted: false,
+  haptics: true,
+  snapStrictness: 'normal',
+  boardSize: 'normal',
+  background: 'midnight',
+  gridLines: 'subtle',
+  effects: !window.matchMedia('(prefers-reduced-motion: reduce)').matches,
+  previewOpacity: 0.1,
+  highContrast: false,
+  defaultPieceCount: 48
+});
+
+export const snapTolerance = (settings: Settings) =>
+  (SNAP_STRICTNESS.find(s => s.id === settings.snapStrictness) ?? SNAP_STRICTNESS[1]).tolerance;
+
+export const boardFill = (settings: Settings) =>
+  (BOARD_SIZES.find(s => s.id === settings.boardSize) ?? BOARD_SIZES[1]).fill;
+
+export const boardBackground = (settings: Settings) =>
+  BOARD_BACKGROUNDS.find(b => b.id === settings.background) ?? BOARD_BACKGROUNDS[0];
+
+export const gridAlpha = (settings: Settings) =>
+  (GRID_LINES.find(g => g.id === settings.gridLines) ?? GRID_LINES[1]).alpha;
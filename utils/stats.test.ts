@@ -0,0 +1,64 @@
+
+import { describe, expect, it } from 'vitest';
+import { GameRecord } from '../types';
+import { bestResults, checkNewRecord, recordKey } from './stats';
+
+// A record as saved before modes, puzzle types and rotation were kept
+const OLD: GameRecord = {
+  id: 'a',
+  imageId: 'lighthouse',
+  title: 'Lighthouse',
+  difficulty: { rows: 4, cols: 6 },
+  time: 300,
+  moves: 40,
+  hints: 0,
+  peeks: 0,
+  completedAt: 0
+};
+
+const finish = (changes: Partial<GameRecord>): GameRecord => ({ ...OLD, id: 'b', completedAt: 1, ...changes });
+
+describe('recordKey', () => {
+  it('keeps the key old records were saved under for classic upright jigsaws', () => {
+    expect(recordKey(OLD)).toBe('lighthouse|6x4');
+    expect(recordKey(finish({ mode: 'classic', puzzleType: 'jigsaw', rotationMode: false }))).toBe('lighthouse|6x4');
+  });
+
+  it('groups photos without a gallery id by title', () => {
+    expect(recordKey({ ...OLD, imageId: null })).toBe('Lighthouse|6x4');
+  });
+
+  it('keeps every mode, puzzle type and rotation setting apart', () => {
+    expect(recordKey(finish({ mode: 'timeAttack' }))).toBe('lighthouse|6x4|timeAttack');
+    expect(recordKey(finish({ mode: 'moveLimit' }))).toBe('lighthouse|6x4|moveLimit');
+    expect(recordKey(finish({ puzzleType: 'sliding' }))).toBe('lighthouse|6x4|sliding');
+    expect(recordKey(finish({ rotationMode: true }))).toBe('lighthouse|6x4|rotate');
+    expect(recordKey(finish({ mode: 'timeAttack', rotationMode: true }))).toBe('lighthouse|6x4|timeAttack|rotate');
+  });
+});
+
+describe('checkNewRecord', () => {
+  it('counts a classic game against records from before modes', () => {
+    expect(checkNewRecord([OLD], finish({ mode: 'classic', time: 200, moves: 50 }))).toEqual({ time: true, moves: false });
+  });
+
+  it('compares only with earlier games in the same mode', () => {
+    expect(checkNewRecord([OLD], finish({ mode: 'timeAttack', time: 100, moves: 10 }))).toEqual({ time: false, moves: false });
+    const earlier = finish({ mode: 'timeAttack', time: 150, moves: 30 });
+    expect(checkNewRecord([OLD, earlier], finish({ id: 'c', mode: 'timeAttack', time: 100, moves: 35 }))).toEqual({ time: true, moves: false });
+  });
+
+  it('keeps rotated games out of upright records', () => {
+    expect(checkNewRecord([OLD], finish({ rotationMode: true, time: 100, moves: 10 }))).toEqual({ time: false, moves: false });
+  });
+});
+
+describe('bestResults', () => {
+  it('lists each mode separately with its own bests', () => {
+    const bests = bestResults([OLD, finish({ time: 250 }), finish({ id: 'c', mode: 'moveLimit', time: 900 })]);
+    expect(bests.map(b => [b.key, b.mode, b.bestTime, b.plays])).toEqual([
+      ['lighthouse|6x4', 'classic', 250, 2],
+      ['lighthouse|6x4|moveLimit', 'moveLimit', 900, 1]
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+
+import { Difficulty, GameMode, GameRecord, PuzzleType } from '../types';
+import { formatGrid } from './grid';
+
+export interface BestResult {
+  key: string;
+  title: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  puzzleType: PuzzleType;
+  rotationMode: boolean;
+  bestTime: number;
+  fewestMoves: number;
+  plays: number;
+}
+
+export interface PeriodSummary {
+  period: string; // YYYY-MM
+  games: number;
+  averageTime: number;
+  averageMoves: number;
+}
+
+export interface StatsSummary {
+  games: number;
+  totalTime: number;
+  averageTime: number;
+  averageMoves: number;
+  hints: number;
+  peeks: number;
+}
+
+// Photos and AI art have no catalogue id, so they are grouped by title instead.
+// Each mode, puzzle type and rotation setting keeps its own records; classic upright jigsaws keep the original key
+// so older records still count.
+export const recordKey = (record: Pick<GameRecord, 'imageId' | 'title' | 'difficulty' | 'mode' | 'puzzleType' | 'rotationMode'>) => {
+  let key = `${record.imageId ?? record.title}|${formatGrid(record.difficulty)}`;
+  if (record.mode && record.mode !== 'classic') key += `|${record.mode}`;
+  if (record.puzzleType === 'sliding') key += '|sliding';
+  if (record.rotationMode) key += '|rotate';
+  return key;
+};
+
+export const bestResults = (records: GameRecord[]): BestResult[] => {
+  const bests = new Map<string, BestResult>();
+  records.forEach(r => {
+    const key = recordKey(r);
+    const best = bests.get(key);
+    if (!best) {
+      bests.set(key, { key, title: r.title, difficulty: r.difficulty, mode: r.mode ?? 'classic', puzzleType: r.puzzleType ?? 'jigsaw', rotationMode: r.rotationMode ?? false, bestTime: r.time, fewestMoves: r.moves, plays: 1 });
+      return;
+    }
+    best.bestTime = Math.min(best.bestTime, r.time);
+    best.fewestMoves = Math.min(best.fewestMoves, r.moves);
+    best.plays++;
+  });
+  return [...bests.values()].sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export interface ImageBest {
+  difficulty: Difficulty; // largest grid solved
+  bestTime: number; // on that grid
+  fewestMoves: number; // on that grid
+  plays: number; // completions on any grid
+}
+
+// Per gallery picture: the largest jigsaw solved and the best results on it, for the completion badges
+export const imageBests = (records: GameRecord[]): Map<string, ImageBest> => {
+  const bests = new Map<string, ImageBest>();
+  records.forEach(r => {
+    if (!r.imageId || r.puzzleType === 'sliding') return;
+    const best = bests.get(r.imageId);
+    const size = r.difficulty.rows * r.difficulty.cols;
+    if (!best || size > best.difficulty.rows * best.difficulty.cols) {
+      bests.set(r.imageId, { difficulty: r.difficulty, bestTime: r.time, fewestMoves: r.moves, plays: (best?.plays ?? 0) + 1 });
+      return;
+    }
+    best.plays++;
+    if (size === best.difficulty.rows * best.difficulty.cols) {
+      best.bestTime = Math.min(best.bestTime, r.time);
+      best.fewestMoves = Math.min(best.fewestMoves, r.moves);
+    }
+  });
+  return bests;
+};
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+export const summarize = (records: GameRecord[]): StatsSummary => ({
+  games: records.length,
+  totalTime: records.reduce((sum, r) => sum + r.time, 0),
+  averageTime: average(records.map(r => r.time)),
+  averageMoves: average(records.map(r => r.moves)),
+  hints: records.reduce((sum, r) => sum + r.hints, 0),
+  peeks: records.reduce((sum, r) => sum + r.peeks, 0),
+});
+
+// Monthly totals, newest month first
+export const summarizeByMonth = (records: GameRecord[]): PeriodSummary[] => {
+  const months = new Map<string, GameRecord[]>();
+  records.forEach(r => {
+    const date = new Date(r.completedAt);
+    const period = `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+    months.set(period, [...(months.get(period) || []), r]);
+  });
+  return [...months.entries()]
+    .map(([period, list]) => ({
+      period,
+      games: list.length,
+      averageTime: average(list.map(r => r.time)),
+      averageMoves: average(list.map(r => r.moves)),
+    }))
+    .sort((a, b) => b.period.localeCompare(a.period));
+};
+
+/**
+ * Compares a finished game with earlier results on the same image and grid.
+ * The very first completion is not flagged: there is nothing to beat yet.
+ */
+export const checkNewRecord = (previous: GameRecord[], record: GameRecord) => {
+  const key = recordKey(record);
+  const earlier = previous.filter(r => recordKey(r) === key);
+  if (earlier.length === 0) return { time: false, moves: false };
+  return {
+    time: record.time < Math.min(...earlier.map(r => r.time)),
+    moves: record.moves < Math.min(...earlier.map(r => r.moves)),
+  };
+};
+
+const CSV_COLUMNS: (keyof GameRecord)[] = ['completedAt', 'imageId', 'title', 'difficulty', 'mode', 'puzzleType', 'rotationMode', 'time', 'moves', 'hints', 'peeks'];
+
+const csvCell = (value: unknown) => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const recordsToCsv = (records: GameRecord[]) => [
+  CSV_COLUMNS.join(','),
+  ...records.map(r => CSV_COLUMNS.map(col => {
+    if (col === 'completedAt') return new Date(r.completedAt).toISOString();
+    if (col === 'difficulty') return formatGrid(r.difficulty);
+    if (col === 'mode') return r.mode ?? 'classic';
+    if (col === 'puzzleType') return r.puzzleType ?? 'jigsaw';
+    if (col === 'rotationMode') return r.rotationMode ? 'yes' : 'no';
+    return csvCell(r[col]);
+  }).join(','))
+].join('\n');
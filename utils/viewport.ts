@@ -0,0 +1,39 @@
+
+// Camera over the play area: screen = world * scale + offset
+export interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 6;
+
+export const IDENTITY_VIEW: Viewport = { scale: 1, x: 0, y: 0 };
+
+export const toWorld = (view: Viewport, sx: number, sy: number) => ({
+  x: (sx - view.x) / view.scale,
+  y: (sy - view.y) / view.scale
+});
+
+/**
+ * Keeps the world rectangle (0, 0, w, h) covering the screen when zoomed in
+ * and fully on screen when zoomed out.
+ */
+export const clampView = (view: Viewport, w: number, h: number): Viewport => {
+  const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.scale));
+  const spareX = w - w * scale;
+  const spareY = h - h * scale;
+  return {
+    scale,
+    x: Math.max(Math.min(0, spareX), Math.min(Math.max(0, spareX), view.x)),
+    y: Math.max(Math.min(0, spareY), Math.min(Math.max(0, spareY), view.y))
+  };
+};
+
+// Zooms to `scale` while keeping the world point under screen point (sx, sy) in place
+export const zoomAt = (view: Viewport, scale: number, sx: number, sy: number, w: number, h: number): Viewport => {
+  const anchor = toWorld(view, sx, sy);
+  const nextScale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+  return clampView({ scale: nextScale, x: sx - anchor.x * nextScale, y: sy - anchor.y * nextScale }, w, h);
+};
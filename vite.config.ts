@@ -1,7 +1,33 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with every built file in its precache list and a version derived from their contents,
+// so each deploy gets a fresh cache and the previous one is dropped on activate
+const offlinePrecache = (): Plugin => ({
+  name: 'offline-precache',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    this.emitFile({ type: 'asset', fileName: 'manifest.json', source: fs.readFileSync(path.resolve(__dirname, 'manifest.json'), 'utf-8') });
+
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.map')).sort();
+    const hash = createHash('sha256');
+    files.forEach(file => {
+      const output = bundle[file];
+      hash.update(file).update(output.type === 'chunk' ? output.code : output.source);
+    });
+    const urls = ['./', ...new Set([...files, 'manifest.json'])];
+
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace(/const BUILD_VERSION = .*;/, `const BUILD_VERSION = '${hash.digest('hex').slice(0, 12)}';`)
+      .replace(/const PRECACHE_URLS = .*;/, `const PRECACHE_URLS = ${JSON.stringify(urls)};`);
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +35,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), offlinePrecache()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {
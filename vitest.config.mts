@@ -0,0 +1,10 @@
+
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so the tests run in plain Node without the React plugin
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['engine/**/*.test.ts', 'services/**/*.test.ts', 'utils/**/*.test.ts']
+  }
+});